@@ -0,0 +1,192 @@
+import {
+  CharacteristicValue,
+  HAPStatus,
+  Logger,
+  PlatformAccessory,
+} from 'homebridge';
+import { HomebridgeAPI } from 'homebridge/lib/api';
+import ColorLightPlatformAccessory from './colorLightPlatformAccessory';
+import GenericLightPlatform from '../platform';
+import { PowerOnConfigType, PresetConfigType } from '../config/types';
+import { determineCapabilities } from '../control/helpers';
+import { HOMEKIT_STATE_SAVE_DELAY } from '../settings';
+import FakeController from '../testing/fakeController';
+
+describe('ColorLightPlatformAccessory', () => {
+  const api = new HomebridgeAPI();
+  const log = ({
+    info: jest.fn(),
+    warn: jest.fn(),
+    error: jest.fn(),
+    debug: jest.fn(),
+  } as unknown) as Logger;
+  const reading: PresetConfigType = {
+    name: 'Reading',
+    devices: [],
+    on: true,
+    levels: { red: 0, green: 0, blue: 0, warm_white: 200, cold_white: 0 },
+    speed: 50,
+  };
+
+  let fake: FakeController;
+  let port: number;
+  let accessory: PlatformAccessory;
+
+  const createLight = (powerOn?: PowerOnConfigType) => {
+    const platform = ({
+      api,
+      log,
+      Service: api.hap.Service,
+      Characteristic: api.hap.Characteristic,
+      config: { pollingInterval: 0, clockCheckInterval: 0 },
+      presets: [reading],
+      customPatterns: [],
+      rediscover: jest.fn(),
+    } as unknown) as GenericLightPlatform;
+
+    accessory.context.device = {
+      id: 'light',
+      displayName: 'Light',
+      ipAddress: '127.0.0.1',
+      port,
+      powerOn,
+    };
+    accessory.context.capabilities = determineCapabilities(0x33);
+    return new ColorLightPlatformAccessory(
+      platform,
+      accessory,
+      '127.0.0.1',
+      port
+    );
+  };
+
+  const set = (
+    handler: (
+      value: CharacteristicValue,
+      callback: (error?: Error | HAPStatus | null) => void
+    ) => void,
+    value: CharacteristicValue
+  ) =>
+    new Promise<Error | HAPStatus | null | undefined>((resolve) =>
+      handler(value, resolve)
+    );
+
+  beforeEach(async () => {
+    jest.spyOn(api, 'updatePlatformAccessories').mockReturnValue(undefined);
+    fake = new FakeController();
+    port = await fake.listen();
+    accessory = new api.platformAccessory('Light', api.hap.uuid.generate('1'));
+  });
+
+  afterEach(async () => {
+    api.emit('shutdown');
+    api.removeAllListeners('shutdown');
+    await fake.close();
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('power-on policies', () => {
+    it('restores the color last set from HomeKit', async () => {
+      accessory.context.homeKitState = {
+        Hue: 240,
+        Saturation: 100,
+        Brightness: 50,
+        ColorTemperature: 140,
+        mode: 'color',
+      };
+      Object.assign(fake.state, { red: 255, green: 255, blue: 255 });
+      const light = createLight();
+
+      expect(await set(light.setOn.bind(light), true)).toBeNull();
+
+      expect(fake.state).toMatchObject({
+        on: true,
+        red: 0,
+        green: 0,
+        blue: 128,
+      });
+    });
+
+    it('switches on at the fixed color and brightness', async () => {
+      const light = createLight({
+        policy: 'fixed',
+        color: { red: 255, green: 0, blue: 0 },
+        brightness: 20,
+        skipRedundantColor: false,
+      });
+
+      expect(await set(light.setOn.bind(light), true)).toBeNull();
+
+      expect(fake.state).toMatchObject({
+        on: true,
+        red: 51,
+        green: 0,
+        blue: 0,
+      });
+    });
+
+    it('skips the color command when the light shows it already', async () => {
+      const light = createLight({
+        policy: 'fixed',
+        color: { red: 255, green: 0, blue: 0 },
+        skipRedundantColor: true,
+      });
+      await set(light.setOn.bind(light), true);
+      await set(light.setOn.bind(light), false);
+      fake.commands = [];
+
+      await set(light.setOn.bind(light), true);
+
+      expect(fake.commands).toEqual([Buffer.from([0x71, 0x23, 0x0f])]);
+    });
+
+    it('applies the power-on preset', async () => {
+      const light = createLight({
+        policy: 'preset',
+        preset: 'Reading',
+        skipRedundantColor: false,
+      });
+
+      expect(await set(light.setOn.bind(light), true)).toBeNull();
+
+      expect(fake.state).toMatchObject({ on: true, warmWhite: 200 });
+    });
+
+    it('restores the last state when the preset is missing', async () => {
+      const light = createLight({
+        policy: 'preset',
+        preset: 'Party',
+        skipRedundantColor: false,
+      });
+
+      expect(log.warn).toHaveBeenCalledWith(
+        expect.stringContaining('was not found'),
+        'Light',
+        'Party'
+      );
+      expect(await set(light.setOn.bind(light), true)).toBeNull();
+      expect(fake.state.on).toBe(true);
+    });
+  });
+
+  describe('HomeKit state', () => {
+    it('writes the cache once the changes settled', async () => {
+      const light = createLight();
+      jest.useFakeTimers('modern');
+
+      await set(light.setBrightness.bind(light), 30);
+      await set(light.setBrightness.bind(light), 40);
+      await set(light.setHue.bind(light), 120);
+
+      expect(accessory.context.homeKitState).toMatchObject({
+        Brightness: 40,
+        Hue: 120,
+      });
+      expect(api.updatePlatformAccessories).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(HOMEKIT_STATE_SAVE_DELAY);
+      expect(api.updatePlatformAccessories).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -1,20 +1,82 @@
-// @ts-nocheck
 import {
+  AdaptiveLightingController,
   Service,
   PlatformAccessory,
   CharacteristicValue,
   CharacteristicSetCallback,
   CharacteristicGetCallback,
+  CharacteristicOperationContext,
+  Characteristic,
+  HAPStatus,
+  WithUUID,
 } from 'homebridge';
 import convert from 'color-convert';
 import GenericLightPlatform from '../platform';
 import Control from '../control/control';
+import ControlGroup, { GroupMemberType } from '../control/controlGroup';
+import { InvalidArgumentError } from '../control/errors';
+import PatternEffects from './patternEffects';
+import Poller from './poller';
+import Reachability from './reachability';
+import SleepTimer from './sleepTimer';
+import { presetMatchesState, updateCharacteristicIfChanged } from './helpers';
+import CustomPatternSwitches from './customPatternSwitches';
+import {
+  DeviceConfigType,
+  PowerOnConfigType,
+  PresetConfigType,
+} from '../config/types';
+import { lightTypes, MAX_MIREDS } from '../control/constants';
+import {
+  determineCapabilities,
+  miredsToWhites,
+  whitesToMireds,
+} from '../control/helpers';
+import {
+  CapabilitiesType,
+  LevelsType,
+  LightTypeNameType,
+  StateType,
+  TimerType,
+} from '../control/types';
+import {
+  COLOR_COALESCE_WINDOW,
+  CONNECT_TIMEOUT_LENGTH,
+  DEFAULT_CLOCK_CHECK_INTERVAL,
+  DEFAULT_MAX_CLOCK_DRIFT,
+  DEFAULT_POLLING_INTERVAL,
+  DEFAULT_POLLING_JITTER,
+  HOMEKIT_STATE_SAVE_DELAY,
+} from '../settings';
 
 export type ColorLightPlatformAccessoryStateType = {
   On: boolean;
   Hue: number;
   Brightness: number;
   Saturation: number;
+  ColorTemperature: number;
+};
+
+// which characteristic was set last decides if the RGB or the white channels are lit
+export type ColorLightModeType = 'color' | 'white';
+
+// the color state last set from HomeKit, kept in `accessory.context.homeKitState`, so it survives restarts
+export type HomeKitStateContextType = Omit<
+  ColorLightPlatformAccessoryStateType,
+  'On'
+> & {
+  mode: ColorLightModeType;
+};
+
+// the context of a set request, Adaptive Lighting passes itself as the controller
+type SetContextType = CharacteristicOperationContext & {
+  controller?: AdaptiveLightingController;
+};
+
+// a characteristic change waiting for the coalesced light update
+type PendingUpdateType = {
+  description: string;
+  callback: CharacteristicSetCallback;
 };
 
 /**
@@ -23,21 +85,47 @@ export type ColorLightPlatformAccessoryStateType = {
  * Each accessory may expose multiple services of different service types.
  */
 export default class ColorLightPlatformAccessory {
-  private light: Control;
+  private light: Control | ControlGroup;
   private service: Service;
+  private effects?: PatternEffects;
+  private customPatterns: CustomPatternSwitches;
   private states: ColorLightPlatformAccessoryStateType = {
     On: false,
     Hue: 0,
     Brightness: 100,
     Saturation: 0,
+    ColorTemperature: MAX_MIREDS,
   };
 
+  private mode: ColorLightModeType = 'color';
+  private capabilities: CapabilitiesType = determineCapabilities(null);
+  private poller: Poller;
+  private adaptiveLighting?: AdaptiveLightingController;
+  // UUIDs of the characteristics whose handlers are registered, capabilities may be set up again once detected
+  private readonly boundCharacteristics = new Set<string>();
+  // milliseconds to fade between two states, 0 switches instantly
+  private transitionDuration: number;
+  // what the light shows when it is switched on from HomeKit
+  private powerOn: PowerOnConfigType;
+  // the state the controller reported last
+  private lastState?: StateType;
+  private reachability: Reachability;
+  private sleepTimer: SleepTimer;
+  // whether the timers from the config were written to the controller since the start
+  private timersSynced = false;
+  private pendingUpdates: PendingUpdateType[] = [];
+  private updateTimeout?: ReturnType<typeof setTimeout>;
+  private saveTimeout?: ReturnType<typeof setTimeout>;
+  // ids of the group members which could not be reached, each outage is logged once
+  private readonly offlineMembers = new Set<string>();
+  // set while the light fades out after its timer ran out, the controller reports it on until the fade ends
+  private timerFading = false;
+
   constructor(
     private readonly platform: GenericLightPlatform,
     private readonly accessory: PlatformAccessory,
     private readonly ipAddress: string,
-    private readonly port: number,
-    private readonly type: 'rgb'
+    private readonly port: number
   ) {
     // set accessory information
     this.accessory
@@ -65,8 +153,98 @@ export default class ColorLightPlatformAccessory {
       accessory.context.device.displayName
     );
 
-    this.light = new Control(this.ipAddress, this.port, {
+    const capabilities: CapabilitiesType | undefined =
+      accessory.context.capabilities;
+
+    const options = {
       logAllReceived: accessory.context.device.debug,
+      persistentConnection: accessory.context.device.persistentConnection,
+      applyMasks: capabilities?.applyMasks,
+      coldWhiteSupport: capabilities?.coldWhite,
+      connectTimeoutLength: CONNECT_TIMEOUT_LENGTH,
+      channelOrder: accessory.context.device.channelOrder,
+      swapWhites: accessory.context.device.swapWhites,
+      calibration: accessory.context.device.calibration,
+    };
+
+    // a group sends everything to all of its members and shows their reconciled state
+    const members: DeviceConfigType[] | undefined =
+      accessory.context.device.members;
+    this.light = members
+      ? new ControlGroup(
+        members.map((member) => ({
+          id: member.id,
+          name: member.displayName,
+          // the members may be wired and calibrated differently
+          control: new Control(member.ipAddress, member.port, {
+            ...options,
+            channelOrder: member.channelOrder,
+            swapWhites: member.swapWhites,
+            calibration: member.calibration,
+          }),
+        })),
+        accessory.context.device.policy,
+        this.memberFailed.bind(this),
+        this.memberSucceeded.bind(this)
+      )
+      : new Control(this.ipAddress, this.port, options);
+
+    this.transitionDuration = accessory.context.device.transitionDuration ?? 0;
+
+    this.powerOn = accessory.context.device.powerOn ?? {
+      policy: 'restore',
+      skipRedundantColor: false,
+    };
+    if (
+      this.powerOn.policy === 'preset' &&
+      !this.platform.presets.some(
+        (preset) => preset.name === this.powerOn.preset
+      )
+    ) {
+      this.platform.log.warn(
+        '%s: the power-on preset %s was not found, restoring the last state instead',
+        accessory.context.device.displayName,
+        this.powerOn.preset
+      );
+      this.powerOn = { ...this.powerOn, policy: 'restore' };
+    }
+
+    this.sleepTimer = new SleepTimer(
+      this.platform,
+      this.accessory,
+      (accessory.context.device.autoOff ?? 0) * 60,
+      (accessory.context.device.timerFadeDuration ?? 0) * 1000,
+      accessory.context.device.sleepTimer === true,
+      this.timerRanOut.bind(this)
+    );
+
+    this.reachability = new Reachability(
+      this.platform.log,
+      accessory.context.device.displayName,
+      this.queryState.bind(this),
+      (reachable) => {
+        // while offline the reachability backoff takes over from the poller
+        if (reachable) {
+          this.poller.start();
+          // the clock resets when the controller loses power
+          this.checkClock();
+          this.syncTimers();
+        } else {
+          this.poller.stop();
+          // the controller may have got a new address from DHCP
+          this.platform.rediscover();
+        }
+      }
+    );
+
+    this.platform.api.on('shutdown', () => {
+      this.reachability.stop();
+      this.poller.stop();
+      this.sleepTimer.stop();
+      this.light.close();
+      if (this.saveTimeout) {
+        clearTimeout(this.saveTimeout);
+      }
     });
 
     // each service must implement at-minimum the "required characteristics" for the given service type
@@ -78,25 +256,466 @@ export default class ColorLightPlatformAccessory {
       .on('set', this.setOn.bind(this)) // SET - bind to the `setOn` method below
       .on('get', this.getOn.bind(this)); // GET - bind to the `getOn` method below
 
+    if (accessory.context.device.effects) {
+      this.effects = new PatternEffects(
+        this.platform,
+        this.accessory,
+        this.light,
+        this.reachability,
+        this.sendLightState.bind(this),
+        this.effectStarted.bind(this)
+      );
+    } else {
+      PatternEffects.removeServices(this.platform, this.accessory);
+    }
+
+    const pollingInterval =
+      accessory.context.device.pollingInterval ??
+      this.platform.config.pollingInterval ??
+      DEFAULT_POLLING_INTERVAL;
+    const pollingJitter =
+      accessory.context.device.pollingJitter ??
+      this.platform.config.pollingJitter ??
+      DEFAULT_POLLING_JITTER;
+
+    this.poller = new Poller(
+      this.poll.bind(this),
+      pollingInterval * 1000,
+      pollingJitter * 1000
+    );
+
+    this.customPatterns = new CustomPatternSwitches(
+      this.platform,
+      this.accessory,
+      this.light,
+      this.reachability,
+      this.platform.customPatterns,
+      this.sendLightState.bind(this),
+      this.effectStarted.bind(this)
+    );
+
+    if (capabilities) {
+      this.setupCapabilities(capabilities);
+    } else {
+      this.detectCapabilities();
+    }
+
+    this.checkClock();
+    this.syncTimers();
+  }
+
+  /**
+   * Sets the clock of the controller to the current time when it is off by more than `maxClockDrift`,
+   * since the on-device timers run by it
+   */
+  checkClock() {
+    if (
+      (this.platform.config.clockCheckInterval ??
+        DEFAULT_CLOCK_CHECK_INTERVAL) <= 0
+    ) {
+      return Promise.resolve();
+    }
+
+    const maxDrift =
+      (this.platform.config.maxClockDrift ?? DEFAULT_MAX_CLOCK_DRIFT) * 1000;
+
+    return this.light
+      .getClock()
+      .then((clock) => {
+        const drift = clock === null ? null : clock.getTime() - Date.now();
+        if (drift !== null && Math.abs(drift) <= maxDrift) {
+          this.platform.log.debug(
+            'Clock of %s is off by %d second(s)',
+            this.accessory.displayName,
+            Math.round(drift / 1000)
+          );
+          return;
+        }
+
+        return this.light.setClock(new Date()).then(() => {
+          this.platform.log.info(
+            'Clock of %s was %s, set it to the current time',
+            this.accessory.displayName,
+            drift === null
+              ? 'not set'
+              : `off by ${Math.round(drift / 1000)} second(s)`
+          );
+        });
+      })
+      .catch((err) => {
+        this.platform.log.debug(
+          'Could not check the clock of %s: %s',
+          this.accessory.displayName,
+          err.message
+        );
+      });
+  }
+
+  /**
+   * Writes the timers from the config to the controller unless it already stores them, once per start
+   * Retried when an unreachable controller comes back.
+   */
+  syncTimers() {
+    const timers: TimerType[] | undefined = this.accessory.context.device
+      .timers;
+    if (!timers || this.timersSynced) {
+      return;
+    }
+
+    this.light
+      .syncTimers(timers)
+      .then((written) => {
+        this.timersSynced = true;
+        if (written) {
+          this.platform.log.info(
+            'Wrote %d timer(s) to %s',
+            timers.length,
+            this.accessory.displayName
+          );
+        } else {
+          this.platform.log.debug(
+            'Timers of %s are up to date',
+            this.accessory.displayName
+          );
+        }
+      })
+      .catch((err) => {
+        this.platform.log.warn(
+          'Could not write the timers of %s: %s',
+          this.accessory.displayName,
+          err.message
+        );
+      });
+  }
+
+  /**
+   * Queries the controller type on first contact and caches the resulting capabilities in the accessory context
+   */
+  detectCapabilities() {
+    this.light
+      .queryState()
+      .then((state) => {
+        this.reachability.success();
+        this.capabilitiesDetected(state);
+        this.applyState(state);
+      })
+      .catch((err) => {
+        this.reachability.failure(err);
+
+        // do not cache the fallback, so detection is retried on the next successful query
+        this.platform.log.warn(
+          `Could not detect the controller type of ${this.accessory.displayName}, assuming rgb until it answers: ${err.message}`
+        );
+        this.setupCapabilities(determineCapabilities(null), true);
+      });
+  }
+
+  /**
+   * Caches the capabilities of the controller type a state reports and sets them up
+   */
+  capabilitiesDetected(state: StateType) {
+    const capabilities = determineCapabilities(state.type);
+    this.platform.log.info(
+      'Detected controller type for %s: %s (0x%s)',
+      this.accessory.displayName,
+      capabilities.lightType,
+      state.type.toString(16)
+    );
+
+    this.accessory.context.capabilities = capabilities;
+    this.platform.api.updatePlatformAccessories([this.accessory]);
+    this.setupCapabilities(capabilities);
+  }
+
+  /**
+   * Follows the controller to a new address found by rediscovery
+   */
+  setAddress(ipAddress: string, port: number) {
+    if (this.light instanceof Control) {
+      this.light.setAddress(ipAddress, port);
+    }
+
+    // probe the new address right away instead of waiting for the next retry
+    if (!this.reachability.reachable) {
+      this.queryState();
+    }
+  }
+
+  /**
+   * Follows a member of a group to a new address found by rediscovery
+   */
+  setMemberAddress(id: string, ipAddress: string, port: number) {
+    if (this.light instanceof ControlGroup) {
+      this.light.setMemberAddress(id, ipAddress, port);
+    }
+
+    if (!this.reachability.reachable) {
+      this.queryState();
+    }
+  }
+
+  /**
+   * Adds the characteristics supported by the controller to the Lightbulb service and removes all others
+   * Capabilities that were only guessed, because the controller did not answer, keep the cached characteristics
+   * until it is detected.
+   */
+  setupCapabilities(detected: CapabilitiesType, guessed = false) {
+    // the lightType from the config wins over the detected channels
+    const lightType: LightTypeNameType | undefined = this.accessory.context
+      .device.lightType;
+    const capabilities = lightType
+      ? { ...detected, lightType, ...lightTypes[lightType] }
+      : detected;
+    this.capabilities = capabilities;
+
+    if (!capabilities.color) {
+      this.mode = 'white';
+    }
+
     // register handlers for the Brightness Characteristic
-    this.service
-      .getCharacteristic(this.platform.Characteristic.Brightness)
-      .on('set', this.setBrightness.bind(this)); // SET - bind to the 'setBrightness` method below
+    this.bindCharacteristic(
+      this.platform.Characteristic.Brightness,
+      this.setBrightness.bind(this),
+      this.getBrightness.bind(this)
+    );
 
-    this.service
-      .getCharacteristic(this.platform.Characteristic.Brightness)
-      .on('set', this.setBrightness.bind(this)) // SET - bind to the 'setBrightness` method below
-      .on('get', this.getBrightness.bind(this));
+    const keep = (characteristic: WithUUID<new () => Characteristic>) =>
+      guessed && this.service.testCharacteristic(characteristic.UUID);
 
-    this.service
-      .getCharacteristic(this.platform.Characteristic.Hue)
-      .on('set', this.setHue.bind(this))
-      .on('get', this.getHue.bind(this));
+    const { Hue, Saturation } = this.platform.Characteristic;
+    if (capabilities.color || keep(Hue)) {
+      this.bindCharacteristic(
+        Hue,
+        this.setHue.bind(this),
+        this.getHue.bind(this)
+      );
+    } else {
+      this.removeCharacteristic(Hue);
+    }
+    if (capabilities.color || keep(Saturation)) {
+      this.bindCharacteristic(
+        Saturation,
+        this.setSaturation.bind(this),
+        this.getSaturaton.bind(this)
+      );
+    } else {
+      this.removeCharacteristic(Saturation);
+    }
+
+    // a dimmer only has a single white channel, so there is no temperature to pick
+    // RGB strips approximate the temperature with their colors, but only to follow Adaptive Lighting
+    const adaptiveLighting =
+      capabilities.color &&
+      this.accessory.context.device.adaptiveLighting !== false;
+    const ColorTemperature = this.platform.Characteristic.ColorTemperature;
+    if (
+      (capabilities.color && (capabilities.warmWhite || adaptiveLighting)) ||
+      keep(ColorTemperature)
+    ) {
+      this.bindCharacteristic(
+        ColorTemperature,
+        this.setColorTemperature.bind(this),
+        this.getColorTemperature.bind(this)
+      );
+    } else {
+      this.removeCharacteristic(ColorTemperature);
+    }
+
+    if (adaptiveLighting && !this.adaptiveLighting) {
+      // the controller sets the color temperature through setColorTemperature and turns itself off
+      // when the user picks a color or a temperature in the Home app
+      this.adaptiveLighting = new this.platform.api.hap.AdaptiveLightingController(
+        this.service
+      );
+      this.accessory.configureController(this.adaptiveLighting);
+    } else if (!adaptiveLighting && this.adaptiveLighting && !guessed) {
+      this.accessory.removeController(this.adaptiveLighting);
+      this.adaptiveLighting = undefined;
+    }
+
+    if (this.reachability.reachable) {
+      this.poller.start();
+    }
+  }
 
+  /**
+   * Registers the handlers of a characteristic, once
+   */
+  bindCharacteristic(
+    characteristic: WithUUID<new () => Characteristic>,
+    set: (
+      value: CharacteristicValue,
+      callback: CharacteristicSetCallback
+    ) => void,
+    get: (callback: CharacteristicGetCallback) => void
+  ) {
+    if (this.boundCharacteristics.has(characteristic.UUID)) {
+      return;
+    }
+
+    this.boundCharacteristics.add(characteristic.UUID);
     this.service
-      .getCharacteristic(this.platform.Characteristic.Saturation)
-      .on('set', this.setSaturation.bind(this))
-      .on('get', this.getSaturaton.bind(this));
+      .getCharacteristic(characteristic)
+      .on('set', set)
+      .on('get', get);
+  }
+
+  /**
+   * Removes a characteristic left over from a previously cached configuration
+   */
+  removeCharacteristic(characteristic: WithUUID<new () => Characteristic>) {
+    this.boundCharacteristics.delete(characteristic.UUID);
+    if (this.service.testCharacteristic(characteristic.UUID)) {
+      this.service.removeCharacteristic(
+        this.service.getCharacteristic(characteristic)
+      );
+    }
+  }
+
+  /**
+   * Stops Adaptive Lighting, e.g. when an effect is started or the controller left the color mode
+   */
+  disableAdaptiveLighting() {
+    if (this.adaptiveLighting?.isAdaptiveLightingActive()) {
+      this.platform.log.debug(
+        'Disabling Adaptive Lighting for',
+        this.accessory.displayName
+      );
+      this.adaptiveLighting.disableAdaptiveLighting();
+    }
+  }
+
+  /**
+   * Stops what would override an effect that was just started, and counts it as a manual change
+   */
+  effectStarted() {
+    this.disableAdaptiveLighting();
+    this.sleepTimer.lightChanged(true);
+  }
+
+  /**
+   * Channel values for the current color or white state, depending on the active mode
+   */
+  lightLevels(): LevelsType {
+    const levels = { red: 0, green: 0, blue: 0, warm_white: 0, cold_white: 0 };
+
+    if (this.mode === 'white' && this.capabilities.warmWhite) {
+      return {
+        ...levels,
+        ...miredsToWhites(
+          this.states.ColorTemperature,
+          this.states.Brightness,
+          this.light.coldWhiteSupport
+        ),
+      };
+    }
+
+    let { Hue: hue, Saturation: saturation } = this.states;
+    if (this.mode === 'white') {
+      // RGB strips show the color temperature as the matching color
+      ({
+        hue,
+        saturation,
+      } = this.platform.api.hap.ColorUtils.colorTemperatureToHueAndSaturation(
+        this.states.ColorTemperature
+      ));
+    }
+
+    const rgb = convert.hsv.rgb(hue, saturation, this.states.Brightness);
+    return { ...levels, red: rgb[0], green: rgb[1], blue: rgb[2] };
+  }
+
+  /**
+   * Sends the current color or white state to the light, fading over the transition duration of the device
+   */
+  sendLightState() {
+    const levels = this.lightLevels();
+
+    if (this.transitionDuration > 0) {
+      return this.light.fadeTo(levels, this.transitionDuration);
+    }
+
+    if (this.mode === 'white' && this.capabilities.warmWhite) {
+      return this.light.setWhitesOnly(levels.warm_white, levels.cold_white);
+    }
+
+    return this.light.setColorOnly(levels.red, levels.green, levels.blue);
+  }
+
+  /**
+   * Sends the light state if the light is on and reports the outcome to HomeKit
+   * A color pick sets hue, saturation and brightness back to back, so all changes within a short window are sent
+   * as a single command instead of flickering through the intermediate colors.
+   */
+  updateLight(description: string, callback: CharacteristicSetCallback) {
+    if (!this.reachability.reachable) {
+      return callback(this.reachability.error());
+    }
+
+    if (!this.states.On) {
+      this.saveHomeKitState();
+      return callback(null);
+    }
+
+    this.pendingUpdates.push({ description, callback });
+
+    if (!this.updateTimeout) {
+      this.updateTimeout = setTimeout(
+        this.flushUpdates.bind(this),
+        COLOR_COALESCE_WINDOW
+      );
+    }
+  }
+
+  /**
+   * Sends the light state once for all updates collected in the coalescing window
+   */
+  flushUpdates() {
+    const updates = this.pendingUpdates;
+    const descriptions = updates.map((update) => update.description).join(', ');
+    this.pendingUpdates = [];
+    this.updateTimeout = undefined;
+    this.saveHomeKitState();
+
+    this.sendLightState()
+      .then(() => {
+        this.platform.log.debug(`Successfully set the ${descriptions}`);
+        this.reachability.success();
+        updates.forEach((update) => update.callback(null));
+      })
+      .catch((err) => {
+        this.platform.log.debug(
+          `Error setting the ${descriptions}: ${err.message}`
+        );
+        const error = this.homeKitError(err);
+        updates.forEach((update) => update.callback(error));
+      });
+  }
+
+  handleError(
+    description: string,
+    err: Error,
+    callback: CharacteristicSetCallback
+  ) {
+    this.platform.log.debug(`Error setting the ${description}: ${err.message}`);
+    callback(this.homeKitError(err));
+  }
+
+  /**
+   * Turns an error of Control into the one to hand to the HomeKit callback
+   * Invalid arguments never reached the controller, so HomeKit is told that the value was invalid instead of
+   * marking the light as not responding.
+   */
+  homeKitError(err: Error) {
+    if (err instanceof InvalidArgumentError) {
+      this.platform.log.error(`${this.accessory.displayName}: ${err.message}`);
+      return new this.platform.api.hap.HapStatusError(
+        HAPStatus.INVALID_VALUE_IN_REQUEST
+      );
+    }
+
+    // a garbled reply fails only this command, HAP answers it with a communication failure
+    return this.reachability.failed(err);
   }
 
   /**
@@ -104,25 +723,141 @@ export default class ColorLightPlatformAccessory {
    * These are sent when the user changes the state of an accessory, for example, turning on a Light bulb.
    */
   setOn(value: CharacteristicValue, callback: CharacteristicSetCallback) {
+    this.platform.log.debug('Set Characteristic On ->', value);
+
+    if (!this.reachability.reachable) {
+      return callback(this.reachability.error());
+    }
+
     // implement your own code to turn your device on/off
-    if (this.states.On !== (value as boolean)) {
-      this.light.setPower(value);
-      if (value) {
-        const rgb = convert.hsv.rgb(
-          this.states.Hue,
-          this.states.Saturation,
-          this.states.Brightness
-        );
-        this.light.setColor(rgb[0], rgb[1], rgb[2]);
-      }
+    if (this.states.On === (value as boolean)) {
+      // you must call the callback function
+      return callback(null);
     }
 
     this.states.On = value as boolean;
+    this.sleepTimer.lightChanged(this.states.On);
 
-    this.platform.log.debug('Set Characteristic On ->', value);
+    (value
+      ? this.switchOn()
+      : this.light.setPower(false, this.transitionDuration)
+    )
+      .then(() => {
+        this.reachability.success();
+        callback(null);
+      })
+      .catch((err) => {
+        this.handleError('power', err, callback);
+      });
+  }
 
-    // you must call the callback function
-    callback(null);
+  /**
+   * Switches the light on by the power-on policy of the device
+   */
+  switchOn() {
+    const powerOn = this.powerOn;
+    const setPower = () => this.light.setPower(true, this.transitionDuration);
+
+    if (powerOn.policy === 'resume') {
+      // show what the controller resumed right away instead of on the next poll
+      return setPower().then(() => this.queryState());
+    }
+
+    if (powerOn.policy === 'preset') {
+      this.disableAdaptiveLighting();
+      const preset = this.platform.presets.find(
+        (preset) => preset.name === powerOn.preset
+      );
+      return setPower()
+        .then(() => (preset ? this.sendPreset(preset) : true))
+        .then(() => this.queryState());
+    }
+
+    if (powerOn.policy === 'fixed') {
+      this.disableAdaptiveLighting();
+      this.applyFixedState(powerOn);
+    } else {
+      this.restoreHomeKitState();
+    }
+
+    return setPower().then(() =>
+      powerOn.skipRedundantColor && this.showsLightState()
+        ? undefined
+        : this.sendLightState()
+    );
+  }
+
+  /**
+   * Takes over the color and brightness of the fixed power-on policy, lights without color only the brightness
+   */
+  applyFixedState(powerOn: PowerOnConfigType) {
+    if (powerOn.color && this.capabilities.color) {
+      const { red, green, blue } = powerOn.color;
+      const hsv = convert.rgb.hsv(red, green, blue);
+      this.mode = 'color';
+      this.states.Hue = hsv[0];
+      this.states.Saturation = hsv[1];
+      this.states.Brightness = hsv[2];
+    }
+    if (powerOn.brightness !== undefined) {
+      this.states.Brightness = powerOn.brightness;
+    }
+
+    this.updateCharacteristics();
+  }
+
+  /**
+   * Takes over the color state last set from HomeKit, the controller may have been changed by other means since
+   */
+  restoreHomeKitState() {
+    const saved: HomeKitStateContextType | undefined = this.accessory.context
+      .homeKitState;
+    if (!saved) {
+      return;
+    }
+
+    const { mode, ...states } = saved;
+    Object.assign(this.states, states);
+    this.mode = mode;
+    this.updateCharacteristics();
+  }
+
+  /**
+   * Keeps the color state set from HomeKit in the context, the cache is written to disk once the changes settled
+   */
+  saveHomeKitState() {
+    const { Hue, Saturation, Brightness, ColorTemperature } = this.states;
+    const saved: HomeKitStateContextType = {
+      Hue,
+      Saturation,
+      Brightness,
+      ColorTemperature,
+      mode: this.mode,
+    };
+    this.accessory.context.homeKitState = saved;
+
+    if (!this.saveTimeout) {
+      this.saveTimeout = setTimeout(() => {
+        this.saveTimeout = undefined;
+        this.platform.api.updatePlatformAccessories([this.accessory]);
+      }, HOMEKIT_STATE_SAVE_DELAY);
+      // homebridge writes the cache on shutdown, before the shutdown event
+      this.saveTimeout.unref();
+    }
+  }
+
+  /**
+   * Whether the controller shows the levels sendLightState would send already
+   */
+  showsLightState() {
+    const current = this.light.levels;
+    const levels = this.lightLevels();
+    const channels: (keyof LevelsType)[] =
+      this.mode === 'white' && this.capabilities.warmWhite
+        ? ['warm_white', 'cold_white']
+        : ['red', 'green', 'blue'];
+
+    return channels.every((channel) => current[channel] === levels[channel]);
   }
 
   /**
@@ -138,9 +873,11 @@ export default class ColorLightPlatformAccessory {
    * this.service.updateCharacteristic(this.platform.Characteristic.On, true)
    */
   getOn(callback: CharacteristicGetCallback) {
-    // implement your own code to check if the device is on
-    this.queryState();
+    if (!this.reachability.reachable) {
+      return callback(this.reachability.error());
+    }
 
+    // the state is kept up to date by the poller, so answer from the cache
     const isOn = this.states.On;
     this.platform.log.debug('Get Characteristic On ->', isOn);
 
@@ -162,35 +899,14 @@ export default class ColorLightPlatformAccessory {
     this.states.Brightness = value as number;
 
     this.platform.log.debug('Set Characteristic Brightness -> ', value);
+    this.sleepTimer.lightChanged(this.states.On);
 
-    if (this.states.On) {
-      const rgb = convert.hsv.rgb(
-        this.states.Hue,
-        this.states.Saturation,
-        value
-      );
-
-      this.light
-        .setColor(rgb[0], rgb[1], rgb[2])
-        .then(() => {
-          this.platform.log.debug('Successfully set the brightness');
-        })
-        .catch((err) => {
-          this.platform.log.debug(
-            'Error setting the brightness: ' + err.message
-          );
-        })
-        .finally(() => {
-          callback(null);
-        });
-    } else {
-      callback(null);
-    }
+    this.updateLight('brightness', callback);
   }
 
   getBrightness(callback: CharacteristicSetCallback) {
-    if (!this.polling) {
-      this.queryState();
+    if (!this.reachability.reachable) {
+      return callback(this.reachability.error());
     }
 
     this.platform.log.debug(
@@ -204,37 +920,17 @@ export default class ColorLightPlatformAccessory {
   setHue(value: CharacteristicValue, callback: CharacteristicSetCallback) {
     // implement your own code to set the brightness
     this.states.Hue = value as number;
+    this.mode = 'color';
 
     this.platform.log.debug('Set Characteristic Hue -> ', value);
+    this.sleepTimer.lightChanged(this.states.On);
 
-    if (this.states.On) {
-      const rgb = convert.hsv.rgb(
-        value,
-        this.states.Saturation,
-        this.states.Brightness
-      );
-
-      this.light
-        .setColor(rgb[0], rgb[1], rgb[2])
-        .then(() => {
-          this.platform.log.debug('Successfully set the hue');
-        })
-        .catch((err) => {
-          this.platform.log.debug(
-            'Error setting the brightness: ' + err.message
-          );
-        })
-        .finally(() => {
-          callback(null);
-        });
-    } else {
-      callback(null);
-    }
+    this.updateLight('hue', callback);
   }
 
   getHue(callback: CharacteristicSetCallback) {
-    if (!this.polling) {
-      this.queryState();
+    if (!this.reachability.reachable) {
+      return callback(this.reachability.error());
     }
 
     this.platform.log.debug('Get Characteristic Hue ->', this.states.Hue);
@@ -247,37 +943,17 @@ export default class ColorLightPlatformAccessory {
   ) {
     // implement your own code to set the brightness
     this.states.Saturation = value as number;
+    this.mode = 'color';
 
     this.platform.log.debug('Set Characteristic Saturation -> ', value);
+    this.sleepTimer.lightChanged(this.states.On);
 
-    if (this.states.On) {
-      const rgb = convert.hsv.rgb(
-        this.states.Hue,
-        value,
-        this.states.Brightness
-      );
-
-      this.light
-        .setColor(rgb[0], rgb[1], rgb[2])
-        .then(() => {
-          this.platform.log.debug('Successfully set the saturation');
-        })
-        .catch((err) => {
-          this.platform.log.debug(
-            'Error setting the brightness: ' + err.message
-          );
-        })
-        .finally(() => {
-          callback(null);
-        });
-    } else {
-      callback(null);
-    }
+    this.updateLight('saturation', callback);
   }
 
   getSaturaton(callback: CharacteristicSetCallback) {
-    if (!this.polling) {
-      this.queryState();
+    if (!this.reachability.reachable) {
+      return callback(this.reachability.error());
     }
 
     this.platform.log.debug(
@@ -287,42 +963,267 @@ export default class ColorLightPlatformAccessory {
     callback(null, this.states.Saturation);
   }
 
+  setColorTemperature(
+    value: CharacteristicValue,
+    callback: CharacteristicSetCallback,
+    context?: SetContextType
+  ) {
+    this.states.ColorTemperature = value as number;
+    this.mode = 'white';
+
+    this.platform.log.debug('Set Characteristic ColorTemperature -> ', value);
+    // Adaptive Lighting passes itself as the context, its updates are no manual changes
+    if (!context?.controller) {
+      this.sleepTimer.lightChanged(this.states.On);
+    }
+
+    if (this.capabilities.color) {
+      // keep hue and saturation in line with the temperature, HAP expects this for Adaptive Lighting
+      const {
+        hue,
+        saturation,
+      } = this.platform.api.hap.ColorUtils.colorTemperatureToHueAndSaturation(
+        this.states.ColorTemperature
+      );
+      this.states.Hue = hue;
+      this.states.Saturation = saturation;
+      this.service.updateCharacteristic(this.platform.Characteristic.Hue, hue);
+      this.service.updateCharacteristic(
+        this.platform.Characteristic.Saturation,
+        saturation
+      );
+    }
+
+    this.updateLight('color temperature', callback);
+  }
+
+  getColorTemperature(callback: CharacteristicGetCallback) {
+    if (!this.reachability.reachable) {
+      return callback(this.reachability.error());
+    }
+
+    this.platform.log.debug(
+      'Get Characteristic ColorTemperature ->',
+      this.states.ColorTemperature
+    );
+    callback(null, this.states.ColorTemperature);
+  }
+
+  /**
+   * Queries the controller and pushes every changed value to HomeKit
+   */
   queryState() {
     this.platform.log.debug('Polling accessory...');
-    this.polling = true;
-    this.light
+    return this.light
       .queryState()
       .then((state) => {
         this.platform.log.debug('Retrived States!');
-        this.states.On = state.on;
-        const hsv = convert.rgb.hsv(
-          state.color.red,
-          state.color.green,
-          state.color.blue
-        );
+        this.reachability.success();
+        if (!this.accessory.context.capabilities) {
+          this.capabilitiesDetected(state);
+        }
+        this.applyState(state);
+      })
+      .catch((err) => {
+        this.platform.log.debug('Error polling accessory:', err.message);
+        this.reachability.failure(err);
+      });
+  }
+
+  /**
+   * Queries the state for the poller, unless the light fades out after its timer ran out,
+   * the half faded light would look like it was switched on by hand
+   */
+  poll() {
+    if (this.timerFading) {
+      return Promise.resolve();
+    }
+
+    return this.queryState();
+  }
+
+  applyState(state: StateType) {
+    if (this.lastState && state.on !== this.states.On) {
+      // switched on or off by something else, e.g. the IR remote
+      this.sleepTimer.lightChanged(state.on);
+    }
+    this.lastState = state;
+
+    if (state.mode !== 'color' && state.mode !== 'white') {
+      // a pattern was started, e.g. through the IR remote
+      this.disableAdaptiveLighting();
+    }
+
+    this.states.On = state.on;
+    // a switched off controller may report the black it faded out to, so HomeKit keeps showing the last levels
+    if (state.on) {
+      const { red, green, blue } = state.color;
+      if (!this.capabilities.color || state.mode === 'white') {
+        // only the white channels are lit
+        const white = whitesToMireds(state.warm_white, state.cold_white);
+        this.mode = 'white';
+        this.states.ColorTemperature = white.mireds;
+        this.states.Brightness = white.brightness;
+      } else {
+        const hsv = convert.rgb.hsv(red, green, blue);
+        this.mode = 'color';
         this.states.Brightness = hsv[2];
         this.states.Hue = hsv[0];
         this.states.Saturation = hsv[1];
-        this.service.updateCharacteristic(
-          this.platform.Characteristic.On,
-          this.states.On
-        );
-        this.service.updateCharacteristic(
-          this.platform.Characteristic.Brightness,
-          this.states.Brightness
-        );
-        this.service.updateCharacteristic(
-          this.platform.Characteristic.Saturation,
-          this.states.Saturation
-        );
-        this.service.updateCharacteristic(
-          this.platform.Characteristic.Hue,
-          this.states.Hue
-        );
-        this.polling = false;
+      }
+    }
+
+    this.updateCharacteristics();
+    if (this.effects) {
+      this.effects.update(state);
+    }
+    this.customPatterns.update(state);
+    this.platform.presetSwitches?.update();
+  }
+
+  /**
+   * Pushes every changed value of the light state to HomeKit
+   */
+  updateCharacteristics() {
+    updateCharacteristicIfChanged(
+      this.service,
+      this.platform.Characteristic.On,
+      this.states.On
+    );
+    updateCharacteristicIfChanged(
+      this.service,
+      this.platform.Characteristic.Brightness,
+      this.states.Brightness
+    );
+    if (this.capabilities.color) {
+      updateCharacteristicIfChanged(
+        this.service,
+        this.platform.Characteristic.Saturation,
+        this.states.Saturation
+      );
+      updateCharacteristicIfChanged(
+        this.service,
+        this.platform.Characteristic.Hue,
+        this.states.Hue
+      );
+    }
+    if (this.capabilities.color && this.capabilities.warmWhite) {
+      updateCharacteristicIfChanged(
+        this.service,
+        this.platform.Characteristic.ColorTemperature,
+        this.states.ColorTemperature
+      );
+    }
+  }
+
+  /**
+   * Logs once that a member of the group went offline, the group keeps going with the other members
+   */
+  memberFailed(member: GroupMemberType, err: Error) {
+    if (!Reachability.isConnectionError(err)) {
+      this.platform.log.debug(
+        '%s: %s failed: %s',
+        this.accessory.displayName,
+        member.name,
+        err.message
+      );
+      return;
+    }
+
+    if (!this.offlineMembers.has(member.id)) {
+      this.offlineMembers.add(member.id);
+      this.platform.log.warn(
+        '%s: %s is offline: %s',
+        this.accessory.displayName,
+        member.name,
+        err.message
+      );
+    }
+  }
+
+  memberSucceeded(member: GroupMemberType) {
+    if (this.offlineMembers.delete(member.id)) {
+      this.platform.log.info(
+        '%s: %s is back online',
+        this.accessory.displayName,
+        member.name
+      );
+    }
+  }
+
+  get displayName() {
+    return this.accessory.displayName;
+  }
+
+  /**
+   * Applies a preset through Control, reads the resulting state back and keeps it as the HomeKit state
+   */
+  applyPreset(preset: PresetConfigType) {
+    if (!this.reachability.reachable) {
+      return Promise.reject(this.reachability.error());
+    }
+
+    this.disableAdaptiveLighting();
+    this.sleepTimer.lightChanged(preset.on);
+
+    const promise = !preset.on
+      ? this.light.setPower(false, this.transitionDuration)
+      : this.light
+        .setPower(true, this.transitionDuration)
+        .then(() => this.sendPreset(preset));
+
+    return promise
+      .catch((err) => {
+        throw this.reachability.failed(err);
+      })
+      .then(() => this.queryState())
+      .then(() => this.saveHomeKitState());
+  }
+
+  /**
+   * Sends the pattern, custom pattern or levels of a preset, a preset without any only switches the power
+   */
+  sendPreset(preset: PresetConfigType) {
+    if (preset.pattern) {
+      return this.light.setPattern(preset.pattern, preset.speed);
+    }
+    if (preset.customPattern) {
+      return this.light.setCustomPattern(
+        CustomPatternSwitches.createCustomMode(preset.customPattern),
+        preset.speed
+      );
+    }
+    if (preset.levels) {
+      return this.light.fadeTo(preset.levels, this.transitionDuration);
+    }
+    return Promise.resolve(true);
+  }
+
+  /**
+   * Switches the light off when its timer ran out
+   */
+  timerRanOut(transition: number) {
+    this.states.On = false;
+    this.timerFading = true;
+
+    return this.light
+      .setPower(false, transition)
+      .finally(() => {
+        this.timerFading = false;
       })
       .catch((err) => {
-        return this.platform.log.error('Error:', err.message);
-      });
+        throw this.reachability.failed(err);
+      })
+      .then(() => this.queryState());
+  }
+
+  /**
+   * Whether the last reported state of the light matches a preset
+   */
+  matches(preset: PresetConfigType) {
+    return (
+      this.lastState !== undefined &&
+      presetMatchesState(preset, this.lastState, this.light.coldWhiteSupport)
+    );
   }
 }
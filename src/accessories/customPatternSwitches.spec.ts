@@ -0,0 +1,90 @@
+import { HAPStatus, Logger, PlatformAccessory } from 'homebridge';
+import { HomebridgeAPI } from 'homebridge/lib/api';
+import CustomPatternSwitches from './customPatternSwitches';
+import Reachability from './reachability';
+import GenericLightPlatform from '../platform';
+import Control from '../control/control';
+import { ChecksumError, CommandTimeoutError } from '../control/errors';
+import { CustomPatternConfigType } from '../config/types';
+
+describe('CustomPatternSwitches', () => {
+  const api = new HomebridgeAPI();
+  const log = ({
+    info: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  } as unknown) as Logger;
+  const platform = ({
+    api,
+    log,
+    Service: api.hap.Service,
+    Characteristic: api.hap.Characteristic,
+  } as unknown) as GenericLightPlatform;
+  const customPattern: CustomPatternConfigType = {
+    name: 'Police',
+    colors: [
+      { red: 255, green: 0, blue: 0 },
+      { red: 0, green: 0, blue: 255 },
+    ],
+    transitionType: 'jump',
+    speed: 80,
+  };
+
+  let accessory: PlatformAccessory;
+  let reachability: Reachability;
+  let setCustomPattern: jest.Mock;
+  let switches: CustomPatternSwitches;
+
+  beforeEach(() => {
+    accessory = new api.platformAccessory('Light', api.hap.uuid.generate('1'));
+    accessory.context.device = { displayName: 'Light' };
+    reachability = new Reachability(
+      log,
+      'Light',
+      () => undefined,
+      () => undefined
+    );
+    setCustomPattern = jest.fn();
+    switches = new CustomPatternSwitches(
+      platform,
+      accessory,
+      ({ setCustomPattern } as unknown) as Control,
+      reachability,
+      [customPattern],
+      () => Promise.resolve(),
+      () => undefined
+    );
+  });
+
+  afterEach(() => {
+    reachability.stop();
+  });
+
+  const setOn = (value: boolean) =>
+    new Promise<Error | HAPStatus | null | undefined>((resolve) =>
+      switches.setOn(customPattern, value, resolve)
+    );
+
+  it('fails the switch with the error of a garbled reply', async () => {
+    const err = new ChecksumError(0x12, 0x34);
+    setCustomPattern.mockRejectedValue(err);
+
+    expect(await setOn(true)).toBe(err);
+    expect(reachability.reachable).toBe(true);
+  });
+
+  it('reports the light as not responding after a timeout', async () => {
+    setCustomPattern.mockRejectedValue(new CommandTimeoutError());
+
+    expect(((await setOn(true)) as Error).message).toBe(
+      'Light is not responding'
+    );
+    expect(reachability.reachable).toBe(false);
+  });
+
+  it('succeeds once the pattern was sent', async () => {
+    setCustomPattern.mockResolvedValue(true);
+
+    expect(await setOn(true)).toBeNull();
+  });
+});
@@ -0,0 +1,157 @@
+import {
+  Service,
+  PlatformAccessory,
+  CharacteristicValue,
+  CharacteristicSetCallback,
+  CharacteristicGetCallback,
+} from 'homebridge';
+import { CustomMode } from 'magic-home';
+import GenericLightPlatform from '../platform';
+import { updateCharacteristicIfChanged } from './helpers';
+import Reachability from './reachability';
+import Control from '../control/control';
+import ControlGroup from '../control/controlGroup';
+import { CustomModeType, StateType } from '../control/types';
+import { CustomPatternConfigType } from '../config/types';
+
+const SUBTYPE_PREFIX = 'custom-pattern-';
+
+/**
+ * Custom Pattern Switches
+ * Publishes every pattern of the `customPatterns` config section as a switch that activates it on the controller.
+ * The controller cannot report which custom pattern it is running, so the last activated one is shown as on
+ * until the controller leaves custom mode.
+ */
+export default class CustomPatternSwitches {
+  private services: Map<string, Service> = new Map();
+  private activePattern: string | null = null;
+
+  constructor(
+    private readonly platform: GenericLightPlatform,
+    private readonly accessory: PlatformAccessory,
+    private readonly light: Control | ControlGroup,
+    private readonly reachability: Reachability,
+    private readonly customPatterns: CustomPatternConfigType[],
+    // restores the static color or white state when the pattern is switched off
+    private readonly stopEffect: () => Promise<unknown>,
+    // stops whatever else changes the light, so it does not override the pattern
+    private readonly onEffectStart: () => void
+  ) {
+    const displayName = accessory.context.device.displayName;
+
+    for (const customPattern of customPatterns) {
+      const subtype = SUBTYPE_PREFIX + customPattern.name;
+      const name = `${displayName} ${customPattern.name}`;
+
+      const service =
+        this.accessory.getServiceById(this.platform.Service.Switch, subtype) ||
+        this.accessory.addService(this.platform.Service.Switch, name, subtype);
+
+      service
+        .getCharacteristic(this.platform.Characteristic.On)
+        .on('set', this.setOn.bind(this, customPattern))
+        .on('get', this.getOn.bind(this, customPattern));
+
+      this.services.set(customPattern.name, service);
+    }
+
+    // remove switches of patterns that were removed from the config
+    for (const service of accessory.services.slice()) {
+      if (
+        service.subtype &&
+        service.subtype.startsWith(SUBTYPE_PREFIX) &&
+        !this.services.has(service.subtype.slice(SUBTYPE_PREFIX.length))
+      ) {
+        accessory.removeService(service);
+      }
+    }
+  }
+
+  /**
+   * Builds the magic-home CustomMode for a pattern from the config
+   */
+  static createCustomMode(
+    customPattern: CustomPatternConfigType
+  ): CustomModeType {
+    const customMode = new CustomMode();
+    for (const color of customPattern.colors) {
+      customMode.addColor(color.red, color.green, color.blue);
+    }
+    return customMode.setTransitionType(customPattern.transitionType);
+  }
+
+  setOn(
+    customPattern: CustomPatternConfigType,
+    value: CharacteristicValue,
+    callback: CharacteristicSetCallback
+  ) {
+    if (!this.reachability.reachable) {
+      return callback(this.reachability.error());
+    }
+
+    this.platform.log.debug(
+      `Set Characteristic Custom Pattern ${customPattern.name} ->`,
+      value
+    );
+
+    let promise;
+    if (value) {
+      this.activePattern = customPattern.name;
+      this.onEffectStart();
+      promise = this.light.setCustomPattern(
+        CustomPatternSwitches.createCustomMode(customPattern),
+        customPattern.speed
+      );
+    } else if (this.activePattern === customPattern.name) {
+      this.activePattern = null;
+      promise = this.stopEffect();
+    } else {
+      promise = Promise.resolve();
+    }
+
+    promise
+      .then(() => {
+        this.reachability.success();
+        this.updateCharacteristics();
+        callback(null);
+      })
+      .catch((err) => {
+        this.platform.log.debug(
+          'Error setting the custom pattern: ' + err.message
+        );
+        callback(this.reachability.failed(err));
+      });
+  }
+
+  getOn(
+    customPattern: CustomPatternConfigType,
+    callback: CharacteristicGetCallback
+  ) {
+    if (!this.reachability.reachable) {
+      return callback(this.reachability.error());
+    }
+
+    callback(null, this.activePattern === customPattern.name);
+  }
+
+  /**
+   * Switches the active pattern off once the controller left custom mode, e.g. through the IR remote
+   */
+  update(state: StateType) {
+    if (state.mode !== 'custom') {
+      this.activePattern = null;
+    }
+
+    this.updateCharacteristics();
+  }
+
+  updateCharacteristics() {
+    for (const [name, service] of this.services) {
+      updateCharacteristicIfChanged(
+        service,
+        this.platform.Characteristic.On,
+        this.activePattern === name
+      );
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import {
+  Characteristic,
+  CharacteristicValue,
+  Service,
+  WithUUID,
+} from 'homebridge';
+import { PresetConfigType } from '../config/types';
+import { StateType } from '../control/types';
+
+/**
+ * Pushes a value to HomeKit, but only if it differs from the value HomeKit already knows about
+ */
+export const updateCharacteristicIfChanged = (
+  service: Service,
+  characteristic: WithUUID<new () => Characteristic>,
+  value: CharacteristicValue
+) => {
+  if (service.getCharacteristic(characteristic).value !== value) {
+    service.updateCharacteristic(characteristic, value);
+  }
+};
+
+// channel values may differ this much from a preset, e.g. through rounding on the controller
+const PRESET_LEVEL_TOLERANCE = 2;
+
+/**
+ * Whether the state a light reported still matches a preset
+ * Custom patterns cannot be told apart, so any custom pattern matches.
+ */
+export const presetMatchesState = (
+  preset: PresetConfigType,
+  state: StateType,
+  coldWhiteSupport: boolean
+) => {
+  if (!preset.on || !state.on) {
+    return preset.on === state.on;
+  }
+
+  if (preset.pattern) {
+    return state.mode === 'pattern' && state.pattern === preset.pattern;
+  }
+
+  if (preset.customPattern) {
+    return state.mode === 'custom';
+  }
+
+  if (preset.levels) {
+    const { levels } = preset;
+    const near = (actual: number, expected: number) =>
+      Math.abs(actual - expected) <= PRESET_LEVEL_TOLERANCE;
+
+    return (
+      (state.mode === 'color' || state.mode === 'white') &&
+      near(state.color.red, levels.red) &&
+      near(state.color.green, levels.green) &&
+      near(state.color.blue, levels.blue) &&
+      near(state.warm_white, levels.warm_white) &&
+      (!coldWhiteSupport || near(state.cold_white, levels.cold_white))
+    );
+  }
+
+  return true;
+};
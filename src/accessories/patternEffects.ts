@@ -0,0 +1,314 @@
+import {
+  Service,
+  PlatformAccessory,
+  CharacteristicValue,
+  CharacteristicSetCallback,
+  CharacteristicGetCallback,
+} from 'homebridge';
+import GenericLightPlatform from '../platform';
+import { updateCharacteristicIfChanged } from './helpers';
+import Reachability from './reachability';
+import Control from '../control/control';
+import ControlGroup from '../control/controlGroup';
+import { patternNames } from '../control/constants';
+import { PatternNameType, StateType } from '../control/types';
+
+export type PatternEffectsStateType = {
+  Active: boolean;
+  ActiveIdentifier: number;
+  RotationSpeed: number;
+};
+
+/**
+ * Pattern Effects
+ * Publishes the built-in patterns of a controller as the inputs of a Television service,
+ * together with a fan whose rotation speed controls the pattern speed.
+ * Input identifiers are the 1-based index of the pattern in `patternNames`.
+ */
+export default class PatternEffects {
+  private service: Service;
+  private speedService: Service;
+  private states: PatternEffectsStateType = {
+    Active: false,
+    ActiveIdentifier: 1,
+    RotationSpeed: 50,
+  };
+
+  constructor(
+    private readonly platform: GenericLightPlatform,
+    private readonly accessory: PlatformAccessory,
+    private readonly light: Control | ControlGroup,
+    private readonly reachability: Reachability,
+    // restores the static color or white state when the effect is stopped
+    private readonly stopEffect: () => Promise<unknown>,
+    // stops whatever else changes the light, so it does not override the effect
+    private readonly onEffectStart: () => void
+  ) {
+    const displayName = accessory.context.device.displayName;
+
+    this.service =
+      this.accessory.getService(this.platform.Service.Television) ||
+      this.accessory.addService(
+        this.platform.Service.Television,
+        `${displayName} Effects`,
+        'effects'
+      );
+
+    this.service
+      .setCharacteristic(
+        this.platform.Characteristic.ConfiguredName,
+        `${displayName} Effects`
+      )
+      .setCharacteristic(
+        this.platform.Characteristic.SleepDiscoveryMode,
+        this.platform.Characteristic.SleepDiscoveryMode.ALWAYS_DISCOVERABLE
+      );
+
+    this.service
+      .getCharacteristic(this.platform.Characteristic.Active)
+      .on('set', this.setActive.bind(this))
+      .on('get', this.getActive.bind(this));
+
+    this.service
+      .getCharacteristic(this.platform.Characteristic.ActiveIdentifier)
+      .on('set', this.setActiveIdentifier.bind(this))
+      .on('get', this.getActiveIdentifier.bind(this));
+
+    patternNames.forEach((patternName, index) => {
+      const name = PatternEffects.displayName(patternName);
+      const subtype = `pattern-${patternName}`;
+
+      const inputService =
+        this.accessory.getServiceById(
+          this.platform.Service.InputSource,
+          subtype
+        ) ||
+        this.accessory.addService(
+          this.platform.Service.InputSource,
+          name,
+          subtype
+        );
+
+      inputService
+        .setCharacteristic(this.platform.Characteristic.Identifier, index + 1)
+        .setCharacteristic(this.platform.Characteristic.ConfiguredName, name)
+        .setCharacteristic(
+          this.platform.Characteristic.IsConfigured,
+          this.platform.Characteristic.IsConfigured.CONFIGURED
+        )
+        .setCharacteristic(
+          this.platform.Characteristic.InputSourceType,
+          this.platform.Characteristic.InputSourceType.OTHER
+        )
+        .setCharacteristic(
+          this.platform.Characteristic.CurrentVisibilityState,
+          this.platform.Characteristic.CurrentVisibilityState.SHOWN
+        );
+
+      this.service.addLinkedService(inputService);
+    });
+
+    this.speedService =
+      this.accessory.getService(this.platform.Service.Fanv2) ||
+      this.accessory.addService(
+        this.platform.Service.Fanv2,
+        `${displayName} Effect Speed`,
+        'effect-speed'
+      );
+
+    this.speedService
+      .getCharacteristic(this.platform.Characteristic.Active)
+      .on('set', this.setActive.bind(this))
+      .on('get', this.getActive.bind(this));
+
+    this.speedService
+      .getCharacteristic(this.platform.Characteristic.RotationSpeed)
+      .on('set', this.setRotationSpeed.bind(this))
+      .on('get', this.getRotationSpeed.bind(this));
+  }
+
+  /**
+   * Removes the effect services left over from a previous configuration with effects enabled
+   */
+  static removeServices(
+    platform: GenericLightPlatform,
+    accessory: PlatformAccessory
+  ) {
+    for (const service of accessory.services.slice()) {
+      if (
+        service.UUID === platform.Service.Television.UUID ||
+        service.UUID === platform.Service.InputSource.UUID ||
+        service.subtype === 'effect-speed'
+      ) {
+        accessory.removeService(service);
+      }
+    }
+  }
+
+  /**
+   * Turns a pattern name like `seven_color_cross_fade` into `Seven Color Cross Fade`
+   */
+  static displayName(patternName: string) {
+    return patternName
+      .split('_')
+      .map((word) => word.charAt(0).toUpperCase() + word.slice(1))
+      .join(' ');
+  }
+
+  get activePattern() {
+    return patternNames[this.states.ActiveIdentifier - 1] as PatternNameType;
+  }
+
+  /**
+   * Starts the selected pattern with the current speed
+   */
+  startPattern() {
+    this.onEffectStart();
+    return this.light.setPattern(this.activePattern, this.states.RotationSpeed);
+  }
+
+  setActive(value: CharacteristicValue, callback: CharacteristicSetCallback) {
+    if (!this.reachability.reachable) {
+      return callback(this.reachability.error());
+    }
+
+    this.states.Active = value === this.platform.Characteristic.Active.ACTIVE;
+
+    this.platform.log.debug('Set Characteristic Effect Active ->', value);
+
+    (this.states.Active ? this.startPattern() : this.stopEffect())
+      .then(() => {
+        this.reachability.success();
+        this.updateCharacteristics();
+        callback(null);
+      })
+      .catch((err) => {
+        this.platform.log.debug('Error setting the effect: ' + err.message);
+        callback(this.reachability.failed(err));
+      });
+  }
+
+  getActive(callback: CharacteristicGetCallback) {
+    if (!this.reachability.reachable) {
+      return callback(this.reachability.error());
+    }
+
+    callback(
+      null,
+      this.states.Active
+        ? this.platform.Characteristic.Active.ACTIVE
+        : this.platform.Characteristic.Active.INACTIVE
+    );
+  }
+
+  setActiveIdentifier(
+    value: CharacteristicValue,
+    callback: CharacteristicSetCallback
+  ) {
+    if (!this.reachability.reachable) {
+      return callback(this.reachability.error());
+    }
+
+    this.states.ActiveIdentifier = value as number;
+    this.states.Active = true;
+
+    this.platform.log.debug('Set Characteristic Effect ->', this.activePattern);
+
+    this.startPattern()
+      .then(() => {
+        this.reachability.success();
+        this.updateCharacteristics();
+        callback(null);
+      })
+      .catch((err) => {
+        this.platform.log.debug('Error setting the effect: ' + err.message);
+        callback(this.reachability.failed(err));
+      });
+  }
+
+  getActiveIdentifier(callback: CharacteristicGetCallback) {
+    if (!this.reachability.reachable) {
+      return callback(this.reachability.error());
+    }
+
+    callback(null, this.states.ActiveIdentifier);
+  }
+
+  setRotationSpeed(
+    value: CharacteristicValue,
+    callback: CharacteristicSetCallback
+  ) {
+    if (!this.reachability.reachable) {
+      return callback(this.reachability.error());
+    }
+
+    this.states.RotationSpeed = value as number;
+
+    this.platform.log.debug('Set Characteristic Effect Speed ->', value);
+
+    if (this.states.Active) {
+      this.startPattern()
+        .then(() => {
+          this.reachability.success();
+          callback(null);
+        })
+        .catch((err) => {
+          this.platform.log.debug(
+            'Error setting the effect speed: ' + err.message
+          );
+          callback(this.reachability.failed(err));
+        });
+    } else {
+      callback(null);
+    }
+  }
+
+  getRotationSpeed(callback: CharacteristicGetCallback) {
+    if (!this.reachability.reachable) {
+      return callback(this.reachability.error());
+    }
+
+    callback(null, this.states.RotationSpeed);
+  }
+
+  /**
+   * Reflects the mode reported by the controller, e.g. after the pattern was changed with the IR remote
+   */
+  update(state: StateType) {
+    this.states.Active = state.mode === 'pattern';
+
+    if (state.mode === 'pattern') {
+      this.states.ActiveIdentifier = patternNames.indexOf(state.pattern) + 1;
+      this.states.RotationSpeed = Math.round(state.speed);
+    }
+
+    this.updateCharacteristics();
+  }
+
+  updateCharacteristics() {
+    const active = this.states.Active
+      ? this.platform.Characteristic.Active.ACTIVE
+      : this.platform.Characteristic.Active.INACTIVE;
+
+    updateCharacteristicIfChanged(
+      this.service,
+      this.platform.Characteristic.Active,
+      active
+    );
+    updateCharacteristicIfChanged(
+      this.service,
+      this.platform.Characteristic.ActiveIdentifier,
+      this.states.ActiveIdentifier
+    );
+    updateCharacteristicIfChanged(
+      this.speedService,
+      this.platform.Characteristic.Active,
+      active
+    );
+    updateCharacteristicIfChanged(
+      this.speedService,
+      this.platform.Characteristic.RotationSpeed,
+      this.states.RotationSpeed
+    );
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * Poller
+ * Periodically runs a poll function in the background. The next poll is scheduled only after the previous one
+ * settled, so slow controllers never get overlapping queries. A random jitter spreads the polls of several
+ * accessories, so they don't all connect at the same moment.
+ */
+export default class Poller {
+  private timeout?: ReturnType<typeof setTimeout>;
+  private polling = false;
+  private stopped = true;
+
+  constructor(
+    private readonly poll: () => Promise<unknown>,
+    // milliseconds between two polls, 0 disables polling
+    private readonly interval: number,
+    // maximum number of milliseconds randomly added to each interval
+    private readonly jitter: number = 0
+  ) {}
+
+  /**
+   * Starts polling, the first poll happens after a random jitter
+   */
+  start() {
+    if (this.interval <= 0 || !this.stopped) {
+      return;
+    }
+
+    this.stopped = false;
+    this.schedule(Math.random() * this.jitter);
+  }
+
+  stop() {
+    this.stopped = true;
+
+    if (this.timeout) {
+      clearTimeout(this.timeout);
+      this.timeout = undefined;
+    }
+  }
+
+  /**
+   * Polls right away, unless a poll is already running
+   */
+  trigger() {
+    if (this.polling) {
+      return;
+    }
+
+    if (this.timeout) {
+      clearTimeout(this.timeout);
+      this.timeout = undefined;
+    }
+
+    this.polling = true;
+    this.poll()
+      .catch(() => {
+        // errors are reported by the poll function itself
+      })
+      .finally(() => {
+        this.polling = false;
+
+        if (!this.stopped) {
+          this.schedule(this.interval + Math.random() * this.jitter);
+        }
+      });
+  }
+
+  private schedule(delay: number) {
+    this.timeout = setTimeout(() => {
+      this.timeout = undefined;
+      this.trigger();
+    }, delay);
+
+    // don't keep homebridge alive just for polling
+    this.timeout.unref();
+  }
+}
@@ -0,0 +1,131 @@
+import {
+  Service,
+  PlatformAccessory,
+  CharacteristicValue,
+  CharacteristicSetCallback,
+  CharacteristicGetCallback,
+} from 'homebridge';
+import GenericLightPlatform from '../platform';
+import { updateCharacteristicIfChanged } from './helpers';
+import ColorLightPlatformAccessory from './colorLightPlatformAccessory';
+import { PresetConfigType } from '../config/types';
+
+const SUBTYPE_PREFIX = 'preset-';
+
+/**
+ * Preset Switches
+ * Publishes every preset of the `presets` config section as a switch on an accessory of its own, since a preset
+ * may span several lights. Switching it on applies the preset, and it shows as on for as long as all of its lights
+ * still report the state of the preset. Switching it off does nothing, a preset cannot be undone.
+ */
+export default class PresetSwitches {
+  private services: Map<string, Service> = new Map();
+
+  constructor(
+    private readonly platform: GenericLightPlatform,
+    private readonly accessory: PlatformAccessory,
+    private readonly presets: PresetConfigType[],
+    // the lights a preset applies to
+    private readonly lights: (
+      preset: PresetConfigType
+    ) => ColorLightPlatformAccessory[]
+  ) {
+    for (const preset of presets) {
+      const subtype = SUBTYPE_PREFIX + preset.name;
+
+      const service =
+        this.accessory.getServiceById(this.platform.Service.Switch, subtype) ||
+        this.accessory.addService(
+          this.platform.Service.Switch,
+          preset.name,
+          subtype
+        );
+
+      service
+        .getCharacteristic(this.platform.Characteristic.On)
+        .on('set', this.setOn.bind(this, preset))
+        .on('get', this.getOn.bind(this, preset));
+
+      this.services.set(preset.name, service);
+    }
+
+    // remove switches of presets that were removed from the config
+    for (const service of accessory.services.slice()) {
+      if (
+        service.subtype &&
+        service.subtype.startsWith(SUBTYPE_PREFIX) &&
+        !this.services.has(service.subtype.slice(SUBTYPE_PREFIX.length))
+      ) {
+        accessory.removeService(service);
+      }
+    }
+  }
+
+  setOn(
+    preset: PresetConfigType,
+    value: CharacteristicValue,
+    callback: CharacteristicSetCallback
+  ) {
+    this.platform.log.debug(
+      `Set Characteristic Preset ${preset.name} ->`,
+      value
+    );
+
+    if (!value) {
+      callback(null);
+      // show whether the lights still match the preset again
+      setImmediate(() => this.update());
+      return;
+    }
+
+    const lights = this.lights(preset);
+
+    Promise.all(
+      lights.map((light) =>
+        light
+          .applyPreset(preset)
+          .then(() => true)
+          .catch((err) => {
+            this.platform.log.warn(
+              'Could not apply the preset %s to %s: %s',
+              preset.name,
+              light.displayName,
+              err.message
+            );
+            return false;
+          })
+      )
+    ).then((results) => {
+      if (results.length > 0 && !results.includes(true)) {
+        return callback(
+          new Error(`The preset ${preset.name} could not be applied`)
+        );
+      }
+
+      callback(null);
+      this.update();
+    });
+  }
+
+  getOn(preset: PresetConfigType, callback: CharacteristicGetCallback) {
+    callback(null, this.isActive(preset));
+  }
+
+  isActive(preset: PresetConfigType) {
+    const lights = this.lights(preset);
+    return lights.length > 0 && lights.every((light) => light.matches(preset));
+  }
+
+  /**
+   * Pushes the match state of every preset to HomeKit, called whenever a light reported its state
+   */
+  update() {
+    for (const preset of this.presets) {
+      updateCharacteristicIfChanged(
+        this.services.get(preset.name)!,
+        this.platform.Characteristic.On,
+        this.isActive(preset)
+      );
+    }
+  }
+}
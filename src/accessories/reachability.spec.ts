@@ -0,0 +1,68 @@
+import { Logger } from 'homebridge';
+import Reachability from './reachability';
+import {
+  ChecksumError,
+  CommandTimeoutError,
+  ConnectionError,
+  ConnectionRefusedError,
+  ConnectTimeoutError,
+  InvalidArgumentError,
+  MalformedReplyError,
+  ShortReplyError,
+} from '../control/errors';
+
+describe('Reachability', () => {
+  const log = ({
+    info: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  } as unknown) as Logger;
+  let reachability: Reachability;
+  let changes: boolean[];
+
+  beforeEach(() => {
+    changes = [];
+    reachability = new Reachability(
+      log,
+      'Light',
+      () => undefined,
+      (reachable) => changes.push(reachable)
+    );
+  });
+
+  afterEach(() => {
+    reachability.stop();
+  });
+
+  it.each([
+    ['a broken connection', new ConnectionError('Connection closed')],
+    ['a connect timeout', new ConnectTimeoutError()],
+    ['a refused connection', new ConnectionRefusedError('refused')],
+    ['a command timeout', new CommandTimeoutError()],
+  ])('goes offline after %s', (_, err) => {
+    expect(reachability.failed(err)).toBeInstanceOf(Error);
+
+    expect(reachability.reachable).toBe(false);
+    expect(changes).toEqual([false]);
+  });
+
+  it.each([
+    ['an invalid argument', new InvalidArgumentError('Invalid pattern')],
+    ['a short reply', new ShortReplyError(10, 14)],
+    ['a checksum mismatch', new ChecksumError(0x12, 0x34)],
+    ['a malformed reply', new MalformedReplyError('Unexpected reply')],
+  ])('stays online after %s', (_, err) => {
+    expect(reachability.failed(err)).toBe(err);
+
+    expect(reachability.reachable).toBe(true);
+    expect(changes).toEqual([]);
+  });
+
+  it('comes back online after a success', () => {
+    reachability.failure(new CommandTimeoutError());
+    reachability.success();
+
+    expect(reachability.reachable).toBe(true);
+    expect(changes).toEqual([false, true]);
+  });
+});
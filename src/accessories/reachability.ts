@@ -0,0 +1,101 @@
+import { Logger } from 'homebridge';
+import { CommandTimeoutError, ConnectionError } from '../control/errors';
+
+/**
+ * Reachability
+ * Tracks whether a controller can be reached. Offline/online transitions are logged once, and while the
+ * controller is offline it is probed with an exponential backoff instead of on every HomeKit request.
+ */
+export default class Reachability {
+  private online = true;
+  private failures = 0;
+  private retryTimeout?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    private readonly log: Logger,
+    private readonly name: string,
+    // tries to reach the controller, reporting the outcome through success or failure
+    private readonly probe: () => void,
+    private readonly onChange: (reachable: boolean) => void,
+    private readonly minRetryDelay: number = 5000,
+    private readonly maxRetryDelay: number = 300000
+  ) {}
+
+  get reachable() {
+    return this.online;
+  }
+
+  /**
+   * Whether an error returned by Control means that the controller could not be reached
+   */
+  static isConnectionError(err: Error) {
+    // invalid arguments and garbled replies say nothing about whether it can be reached
+    return err instanceof ConnectionError || err instanceof CommandTimeoutError;
+  }
+
+  /**
+   * Error to hand to HomeKit callbacks, HAP answers it with a communication failure which shows up as "No Response"
+   */
+  error() {
+    return new Error(`${this.name} is not responding`);
+  }
+
+  success() {
+    this.failures = 0;
+
+    if (this.retryTimeout) {
+      clearTimeout(this.retryTimeout);
+      this.retryTimeout = undefined;
+    }
+
+    if (!this.online) {
+      this.online = true;
+      this.log.info(`${this.name} is back online`);
+      this.onChange(true);
+    }
+  }
+
+  failure(err: Error) {
+    if (!Reachability.isConnectionError(err)) {
+      return;
+    }
+
+    this.failures++;
+
+    if (this.online) {
+      this.online = false;
+      this.log.warn(`${this.name} is offline: ${err.message}`);
+      this.onChange(false);
+    }
+
+    if (!this.retryTimeout) {
+      const delay = Math.min(
+        this.minRetryDelay * 2 ** (this.failures - 1),
+        this.maxRetryDelay
+      );
+      this.log.debug(`Retrying ${this.name} in ${delay / 1000}s`);
+
+      this.retryTimeout = setTimeout(() => {
+        this.retryTimeout = undefined;
+        this.probe();
+      }, delay);
+      this.retryTimeout.unref();
+    }
+  }
+
+  /**
+   * Records a failed command and returns the error to hand to the HomeKit callback,
+   * any other error fails only this command and is handed on as it is
+   */
+  failed(err: Error): Error {
+    this.failure(err);
+    return Reachability.isConnectionError(err) ? this.error() : err;
+  }
+
+  stop() {
+    if (this.retryTimeout) {
+      clearTimeout(this.retryTimeout);
+      this.retryTimeout = undefined;
+    }
+  }
+}
@@ -0,0 +1,208 @@
+import { Logger, PlatformAccessory } from 'homebridge';
+import { HomebridgeAPI } from 'homebridge/lib/api';
+import SleepTimer from './sleepTimer';
+import GenericLightPlatform from '../platform';
+import { DEFAULT_SLEEP_TIMER_DURATION } from '../settings';
+
+describe('SleepTimer', () => {
+  const api = new HomebridgeAPI();
+  const { Active, InUse } = api.hap.Characteristic;
+  const log = ({
+    info: jest.fn(),
+    warn: jest.fn(),
+    debug: jest.fn(),
+  } as unknown) as Logger;
+  const platform = ({
+    api,
+    log,
+    Service: api.hap.Service,
+    Characteristic: api.hap.Characteristic,
+  } as unknown) as GenericLightPlatform;
+
+  let accessory: PlatformAccessory;
+  let turnOff: jest.Mock;
+  let timers: SleepTimer[];
+
+  const createTimer = (autoOff = 0, exposed = false, fadeDuration = 0) => {
+    const timer = new SleepTimer(
+      platform,
+      accessory,
+      autoOff,
+      fadeDuration,
+      exposed,
+      turnOff
+    );
+    timers.push(timer);
+    return timer;
+  };
+
+  const valve = () =>
+    accessory.getServiceById(api.hap.Service.Valve, 'sleep-timer');
+
+  beforeEach(() => {
+    jest.useFakeTimers('modern');
+    jest.spyOn(api, 'updatePlatformAccessories').mockReturnValue(undefined);
+    accessory = new api.platformAccessory('Light', api.hap.uuid.generate('1'));
+    accessory.context.device = { displayName: 'Light' };
+    turnOff = jest.fn().mockResolvedValue(true);
+    timers = [];
+  });
+
+  afterEach(() => {
+    timers.forEach((timer) => timer.stop());
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  describe('autoOff', () => {
+    it('switches the light off after it was switched on', () => {
+      const timer = createTimer(60, false, 5000);
+
+      timer.lightChanged(true);
+      jest.advanceTimersByTime(59000);
+      expect(turnOff).not.toHaveBeenCalled();
+
+      jest.advanceTimersByTime(1000);
+      expect(turnOff).toHaveBeenCalledWith(5000);
+      expect(timer.running).toBe(false);
+      expect(accessory.context.sleepTimer.endsAt).toBeUndefined();
+    });
+
+    it('starts over when the light is changed by hand', () => {
+      const timer = createTimer(60);
+
+      timer.lightChanged(true);
+      jest.advanceTimersByTime(40000);
+      timer.lightChanged(true);
+      jest.advanceTimersByTime(40000);
+
+      expect(turnOff).not.toHaveBeenCalled();
+      expect(timer.remaining).toBe(20);
+    });
+
+    it('is cancelled when the light is switched off by hand', () => {
+      const timer = createTimer(60);
+
+      timer.lightChanged(true);
+      timer.lightChanged(false);
+      jest.advanceTimersByTime(60000);
+
+      expect(turnOff).not.toHaveBeenCalled();
+      expect(timer.running).toBe(false);
+    });
+
+    it('does nothing while disabled', () => {
+      const timer = createTimer(0);
+
+      timer.lightChanged(true);
+      jest.advanceTimersByTime(DEFAULT_SLEEP_TIMER_DURATION * 1000);
+
+      expect(timer.running).toBe(false);
+      expect(turnOff).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('restarts', () => {
+    it('keeps the end of a running timer in the context', () => {
+      createTimer(60).lightChanged(true);
+      timers[0].stop();
+
+      jest.advanceTimersByTime(30000);
+      const timer = createTimer(60);
+
+      expect(timer.remaining).toBe(30);
+      jest.advanceTimersByTime(30000);
+      expect(turnOff).toHaveBeenCalledTimes(1);
+    });
+
+    it('fires right away when the timer ran out during the restart', () => {
+      createTimer(60).lightChanged(true);
+      timers[0].stop();
+
+      jest.advanceTimersByTime(120000);
+      expect(turnOff).not.toHaveBeenCalled();
+
+      createTimer(60);
+      jest.advanceTimersByTime(0);
+      expect(turnOff).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not fire a cancelled timer', () => {
+      const timer = createTimer(60);
+      timer.lightChanged(true);
+      timer.cancel();
+      timer.stop();
+
+      createTimer(60);
+      jest.advanceTimersByTime(60000);
+
+      expect(turnOff).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('HomeKit', () => {
+    it('publishes the timer as a valve', () => {
+      createTimer(0, true);
+
+      expect(valve()).toBeDefined();
+      expect(valve()!.getCharacteristic(Active).value).toBe(Active.INACTIVE);
+    });
+
+    it('removes the valve once it is no longer exposed', () => {
+      createTimer(0, true);
+      createTimer(0, false);
+
+      expect(valve()).toBeUndefined();
+    });
+
+    it('runs for the set duration once activated', () => {
+      const timer = createTimer(0, true);
+      const callback = jest.fn();
+
+      timer.setDuration(120, callback);
+      timer.setActive(Active.ACTIVE, callback);
+
+      expect(callback).toHaveBeenCalledWith(null);
+      expect(valve()!.getCharacteristic(InUse).value).toBe(InUse.IN_USE);
+      jest.advanceTimersByTime(120000);
+      expect(turnOff).toHaveBeenCalledTimes(1);
+      expect(valve()!.getCharacteristic(Active).value).toBe(Active.INACTIVE);
+    });
+
+    it('applies a new duration to the running timer', () => {
+      const timer = createTimer(0, true);
+      const callback = jest.fn();
+
+      timer.setActive(Active.ACTIVE, callback);
+      timer.setDuration(30, callback);
+
+      expect(timer.remaining).toBe(30);
+      expect(accessory.context.sleepTimer.duration).toBe(30);
+    });
+
+    it('stops the timer once deactivated', () => {
+      const timer = createTimer(0, true);
+      const callback = jest.fn();
+
+      timer.setActive(Active.ACTIVE, callback);
+      timer.setActive(Active.INACTIVE, callback);
+      jest.advanceTimersByTime(DEFAULT_SLEEP_TIMER_DURATION * 1000);
+
+      expect(turnOff).not.toHaveBeenCalled();
+    });
+  });
+
+  it('logs a light that could not be switched off', async () => {
+    turnOff.mockRejectedValue(new Error('Command timed out'));
+    createTimer(60).lightChanged(true);
+
+    jest.advanceTimersByTime(60000);
+    await Promise.resolve();
+
+    expect(log.warn).toHaveBeenCalledWith(
+      'Could not switch %s off: %s',
+      'Light',
+      'Command timed out'
+    );
+  });
+});
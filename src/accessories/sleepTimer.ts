@@ -0,0 +1,302 @@
+import {
+  Service,
+  PlatformAccessory,
+  CharacteristicValue,
+  CharacteristicSetCallback,
+  CharacteristicGetCallback,
+} from 'homebridge';
+import GenericLightPlatform from '../platform';
+import { updateCharacteristicIfChanged } from './helpers';
+import {
+  DEFAULT_SLEEP_TIMER_DURATION,
+  MAX_SLEEP_TIMER_DURATION,
+} from '../settings';
+
+// the timer kept in `accessory.context.sleepTimer`, so it survives restarts
+export type SleepTimerContextType = {
+  // epoch milliseconds at which the light is switched off, unset while no timer runs
+  endsAt?: number;
+  // seconds the HomeKit timer runs for when it is started
+  duration: number;
+};
+
+/**
+ * Sleep Timer
+ * Switches the light off once a timer ran out, optionally fading it down first. The timer is started either from
+ * HomeKit, through a Valve service whose duration can be set in the Home app, or by the `autoOff` config whenever
+ * the light is switched on. Manual changes to the light cancel a running timer, `autoOff` then starts over.
+ * The end of the timer is kept in the accessory context, a timer that ran out during a restart fires right away.
+ */
+export default class SleepTimer {
+  private service?: Service;
+  private timeout?: ReturnType<typeof setTimeout>;
+
+  constructor(
+    private readonly platform: GenericLightPlatform,
+    private readonly accessory: PlatformAccessory,
+    // seconds after which the light is switched off whenever it was switched on, 0 disables it
+    private readonly autoOff: number,
+    // milliseconds to fade down before switching off
+    private readonly fadeDuration: number,
+    // publishes the Valve service
+    exposed: boolean,
+    // switches the light off, fading over the given milliseconds
+    private readonly turnOff: (transition: number) => Promise<unknown>
+  ) {
+    if (exposed) {
+      this.setupService();
+    } else {
+      SleepTimer.removeServices(this.platform, this.accessory);
+    }
+
+    const endsAt = this.context.endsAt;
+    if (endsAt !== undefined) {
+      this.schedule(endsAt);
+    }
+  }
+
+  static removeServices(
+    platform: GenericLightPlatform,
+    accessory: PlatformAccessory
+  ) {
+    const service = accessory.getServiceById(
+      platform.Service.Valve,
+      'sleep-timer'
+    );
+    if (service) {
+      accessory.removeService(service);
+    }
+  }
+
+  setupService() {
+    const displayName = this.accessory.context.device.displayName;
+
+    this.service =
+      this.accessory.getServiceById(
+        this.platform.Service.Valve,
+        'sleep-timer'
+      ) ||
+      this.accessory.addService(
+        this.platform.Service.Valve,
+        `${displayName} Timer`,
+        'sleep-timer'
+      );
+
+    this.service.setCharacteristic(
+      this.platform.Characteristic.ValveType,
+      this.platform.Characteristic.ValveType.GENERIC_VALVE
+    );
+
+    this.service
+      .getCharacteristic(this.platform.Characteristic.Active)
+      .on('set', this.setActive.bind(this))
+      .on('get', this.getActive.bind(this));
+
+    this.service
+      .getCharacteristic(this.platform.Characteristic.InUse)
+      .on('get', this.getInUse.bind(this));
+
+    // HAP limits both durations to an hour by default
+    this.service
+      .getCharacteristic(this.platform.Characteristic.SetDuration)
+      .setProps({ maxValue: MAX_SLEEP_TIMER_DURATION })
+      .on('set', this.setDuration.bind(this))
+      .on('get', this.getDuration.bind(this));
+
+    this.service
+      .getCharacteristic(this.platform.Characteristic.RemainingDuration)
+      .setProps({ maxValue: MAX_SLEEP_TIMER_DURATION })
+      .on('get', this.getRemainingDuration.bind(this));
+  }
+
+  get context(): SleepTimerContextType {
+    if (!this.accessory.context.sleepTimer) {
+      this.accessory.context.sleepTimer = {
+        duration: this.autoOff || DEFAULT_SLEEP_TIMER_DURATION,
+      };
+    }
+    return this.accessory.context.sleepTimer;
+  }
+
+  get running() {
+    return this.context.endsAt !== undefined;
+  }
+
+  /**
+   * Seconds until the light is switched off, 0 while no timer runs
+   */
+  get remaining() {
+    const endsAt = this.context.endsAt;
+    return endsAt === undefined
+      ? 0
+      : Math.max(0, Math.round((endsAt - Date.now()) / 1000));
+  }
+
+  /**
+   * Starts the timer over, switching the light off after the given seconds
+   */
+  start(seconds: number) {
+    this.platform.log.debug(
+      'Switching %s off in %d second(s)',
+      this.accessory.displayName,
+      seconds
+    );
+
+    this.context.endsAt = Date.now() + seconds * 1000;
+    this.platform.api.updatePlatformAccessories([this.accessory]);
+    this.schedule(this.context.endsAt);
+  }
+
+  cancel() {
+    if (!this.running) {
+      return;
+    }
+
+    this.platform.log.debug(
+      'Cancelled the timer of',
+      this.accessory.displayName
+    );
+
+    this.clear();
+    this.platform.api.updatePlatformAccessories([this.accessory]);
+    this.update();
+  }
+
+  /**
+   * Cancels the running timer after the light was changed by hand, `autoOff` starts over while the light is on
+   */
+  lightChanged(on: boolean) {
+    this.cancel();
+
+    if (on && this.autoOff > 0) {
+      this.start(this.autoOff);
+    }
+  }
+
+  /**
+   * @private
+   */
+  schedule(endsAt: number) {
+    if (this.timeout) {
+      clearTimeout(this.timeout);
+    }
+
+    this.timeout = setTimeout(
+      this.expire.bind(this),
+      Math.max(0, endsAt - Date.now())
+    );
+    this.timeout.unref();
+    this.update();
+  }
+
+  /**
+   * @private
+   */
+  clear() {
+    this.stop();
+    delete this.context.endsAt;
+  }
+
+  expire() {
+    this.platform.log.info('Timer of %s ran out', this.accessory.displayName);
+
+    this.clear();
+    this.platform.api.updatePlatformAccessories([this.accessory]);
+    this.update();
+
+    this.turnOff(this.fadeDuration).catch((err) => {
+      this.platform.log.warn(
+        'Could not switch %s off: %s',
+        this.accessory.displayName,
+        err.message
+      );
+    });
+  }
+
+  /**
+   * Stops the countdown on shutdown, the end of the timer stays in the context
+   */
+  stop() {
+    if (this.timeout) {
+      clearTimeout(this.timeout);
+      this.timeout = undefined;
+    }
+  }
+
+  setActive(value: CharacteristicValue, callback: CharacteristicSetCallback) {
+    this.platform.log.debug('Set Characteristic Timer Active ->', value);
+
+    if (value === this.platform.Characteristic.Active.ACTIVE) {
+      this.start(this.context.duration);
+    } else {
+      this.cancel();
+    }
+
+    callback(null);
+  }
+
+  getActive(callback: CharacteristicGetCallback) {
+    callback(
+      null,
+      this.running
+        ? this.platform.Characteristic.Active.ACTIVE
+        : this.platform.Characteristic.Active.INACTIVE
+    );
+  }
+
+  getInUse(callback: CharacteristicGetCallback) {
+    callback(
+      null,
+      this.running
+        ? this.platform.Characteristic.InUse.IN_USE
+        : this.platform.Characteristic.InUse.NOT_IN_USE
+    );
+  }
+
+  setDuration(value: CharacteristicValue, callback: CharacteristicSetCallback) {
+    this.platform.log.debug('Set Characteristic Timer Duration ->', value);
+
+    this.context.duration = value as number;
+    this.platform.api.updatePlatformAccessories([this.accessory]);
+
+    // a new duration applies to the running timer right away, like the Home app shows it
+    if (this.running) {
+      this.start(this.context.duration);
+    }
+
+    callback(null);
+  }
+
+  getDuration(callback: CharacteristicGetCallback) {
+    callback(null, this.context.duration);
+  }
+
+  getRemainingDuration(callback: CharacteristicGetCallback) {
+    callback(null, this.remaining);
+  }
+
+  /**
+   * Pushes the timer state to HomeKit
+   */
+  update() {
+    if (!this.service) {
+      return;
+    }
+
+    const { Active, InUse } = this.platform.Characteristic;
+    updateCharacteristicIfChanged(
+      this.service,
+      Active,
+      this.running ? Active.ACTIVE : Active.INACTIVE
+    );
+    updateCharacteristicIfChanged(
+      this.service,
+      InUse,
+      this.running ? InUse.IN_USE : InUse.NOT_IN_USE
+    );
+    this.service.updateCharacteristic(
+      this.platform.Characteristic.RemainingDuration,
+      this.remaining
+    );
+  }
+}
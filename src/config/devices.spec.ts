@@ -0,0 +1,141 @@
+import { Logger } from 'homebridge';
+import {
+  fromDiscovery,
+  mergeDevices,
+  normalizeDeviceId,
+  resolveGroups,
+} from './devices';
+
+describe('normalizeDeviceId', () => {
+  it('normalizes MAC addresses', () => {
+    expect(normalizeDeviceId('ac:cf:23:a1:b2:c3')).toBe('ACCF23A1B2C3');
+    expect(normalizeDeviceId('AC-CF-23-A1-B2-C3')).toBe('ACCF23A1B2C3');
+  });
+
+  it('leaves other IDs untouched', () => {
+    expect(normalizeDeviceId('living-room')).toBe('living-room');
+  });
+});
+
+describe('mergeDevices', () => {
+  const log = ({ warn: jest.fn() } as unknown) as Logger;
+  const discovered = [
+    fromDiscovery({
+      address: '192.168.1.20',
+      id: 'ACCF23A1B2C3',
+      model: 'AK001-ZJ100',
+    }),
+    fromDiscovery({
+      address: '192.168.1.21',
+      id: 'ACCF23D4E5F6',
+      model: 'AK001-ZJ100',
+    }),
+  ];
+
+  it('uses the discovered devices as they are without config entries', () => {
+    expect(mergeDevices(log, discovered, [])).toEqual(discovered);
+  });
+
+  it('overrides discovered devices matched by MAC address', () => {
+    const devices = mergeDevices(log, discovered, [
+      {
+        id: 'ac:cf:23:a1:b2:c3',
+        displayName: 'Kitchen',
+        ipAddress: '192.168.1.99',
+        port: 5578,
+        effects: true,
+      },
+    ]);
+
+    expect(devices[0]).toEqual({
+      id: 'ACCF23A1B2C3',
+      displayName: 'Kitchen',
+      ipAddress: '192.168.1.20',
+      port: 5578,
+      model: 'AK001-ZJ100',
+      effects: true,
+    });
+    expect(devices[1]).toEqual(discovered[1]);
+  });
+
+  it('adds config-only devices with the default port', () => {
+    const devices = mergeDevices(log, discovered, [
+      { id: 'garage', displayName: 'Garage', ipAddress: '10.0.0.5' },
+    ] as never);
+
+    expect(devices).toHaveLength(3);
+    expect(devices[2]).toEqual({
+      id: 'garage',
+      displayName: 'Garage',
+      ipAddress: '10.0.0.5',
+      port: 5577,
+    });
+  });
+
+  it('skips config-only devices without an address', () => {
+    const devices = mergeDevices(log, [], [
+      { id: 'ACCF23000000', displayName: 'Missing' },
+    ] as never);
+
+    expect(devices).toEqual([]);
+    expect(log.warn).toHaveBeenCalled();
+  });
+
+  it('leaves out ignored devices by MAC or IP address', () => {
+    const devices = mergeDevices(
+      log,
+      discovered,
+      [],
+      ['ac:cf:23:a1:b2:c3', '192.168.1.21']
+    );
+
+    expect(devices).toEqual([]);
+  });
+});
+
+describe('resolveGroups', () => {
+  const log = ({ warn: jest.fn() } as unknown) as Logger;
+  const device = (id: string, ipAddress: string) => ({
+    id,
+    displayName: id,
+    ipAddress,
+    port: 5577,
+  });
+  const group = {
+    id: 'kitchen',
+    displayName: 'Kitchen',
+    members: ['ACCF23A1B2C3', 'ACCF23A1B2C4', 'ACCF23A1B2C5'],
+    policy: 'leader' as const,
+  };
+
+  it('replaces the members with the group, led by the first found member', () => {
+    const devices = resolveGroups(
+      log,
+      [
+        device('ACCF23A1B2C3', '10.0.0.3'),
+        device('ac:cf:23:a1:b2:c4', '10.0.0.4'),
+        device('ACCF23A1B2C9', '10.0.0.9'),
+      ],
+      [group]
+    );
+
+    expect(devices.map((entry) => entry.id)).toEqual([
+      'ACCF23A1B2C9',
+      'kitchen',
+    ]);
+    expect(devices[1]).toMatchObject({
+      ipAddress: '10.0.0.3',
+      policy: 'leader',
+      members: [{ id: 'ACCF23A1B2C3' }, { id: 'ac:cf:23:a1:b2:c4' }],
+    });
+    expect(log.warn).toHaveBeenCalledWith(
+      'Group Kitchen: device ACCF23A1B2C5 was not found'
+    );
+  });
+
+  it('skips groups without any member', () => {
+    expect(
+      resolveGroups(log, [device('ACCF23A1B2C9', '10.0.0.9')], [group])
+    ).toHaveLength(1);
+  });
+});
@@ -0,0 +1,127 @@
+import { Logger } from 'homebridge';
+import { DEFAULT_CONTROLLER_PORT } from '../settings';
+import {
+  DeviceConfigType,
+  DiscoveredDeviceType,
+  GroupConfigType,
+} from './types';
+
+/**
+ * Normalizes MAC addresses to the form discovery reports them in, e.g. `ac:cf:23:a1:b2:c3` to `ACCF23A1B2C3`,
+ * so a device keeps its identity no matter how its ID is written in the config. Other IDs are left untouched.
+ */
+export const normalizeDeviceId = (id: string) => {
+  const stripped = String(id).trim().replace(/[:.-]/g, '');
+  return /^[0-9a-f]{12}$/i.test(stripped) ? stripped.toUpperCase() : id;
+};
+
+/**
+ * Turns a discovery reply into a device, named after its model and the last digits of its MAC address
+ */
+export const fromDiscovery = (
+  discovered: DiscoveredDeviceType
+): DeviceConfigType => {
+  const id = normalizeDeviceId(discovered.id);
+
+  return {
+    id,
+    displayName: `${discovered.model} ${id.slice(-6)}`,
+    ipAddress: discovered.address,
+    port: DEFAULT_CONTROLLER_PORT,
+    model: discovered.model,
+  };
+};
+
+/**
+ * Merges the discovered devices with the `devices` section of the config.
+ * Config entries are matched to discovered devices by their MAC address and override everything but the address,
+ * which discovery knows better. Unmatched config entries are added as static devices, e.g. for controllers on
+ * other subnets that never answer the discovery broadcast. Discovered devices listed in `ignore` by MAC or IP
+ * address are left out.
+ */
+export const mergeDevices = (
+  log: Logger,
+  discovered: DeviceConfigType[],
+  configured: DeviceConfigType[],
+  ignore: string[] = []
+): DeviceConfigType[] => {
+  const ignored = new Set(ignore.map(normalizeDeviceId));
+  const devices = discovered
+    .filter(
+      (device) => !ignored.has(device.id) && !ignored.has(device.ipAddress)
+    )
+    .map((device) => {
+      const override = configured.find(
+        (entry) => normalizeDeviceId(entry.id) === device.id
+      );
+      return override
+        ? { ...device, ...override, id: device.id, ipAddress: device.ipAddress }
+        : device;
+    });
+
+  for (const entry of configured) {
+    const id = normalizeDeviceId(entry.id);
+    if (discovered.some((device) => device.id === id)) {
+      continue;
+    }
+
+    if (!entry.ipAddress) {
+      log.warn(
+        `Device ${
+          entry.displayName || entry.id
+        } was not discovered and has no ipAddress, skipping it`
+      );
+      continue;
+    }
+
+    devices.push({ ...entry, port: entry.port ?? DEFAULT_CONTROLLER_PORT });
+  }
+
+  return devices;
+};
+
+/**
+ * Replaces the members of every group with a single device for the group, which holds its members and uses the
+ * address of its leader. Members that were neither configured nor discovered are logged and left out, so a group
+ * keeps working with the others. Groups without any member left are skipped.
+ */
+export const resolveGroups = (
+  log: Logger,
+  devices: DeviceConfigType[],
+  groups: GroupConfigType[]
+): DeviceConfigType[] => {
+  const grouped = new Set<string>();
+  const resolved: DeviceConfigType[] = [];
+
+  for (const group of groups) {
+    const members: DeviceConfigType[] = [];
+    for (const id of group.members) {
+      const member = devices.find(
+        (device) => normalizeDeviceId(device.id) === id
+      );
+      if (!member) {
+        log.warn(`Group ${group.displayName}: device ${id} was not found`);
+        continue;
+      }
+
+      members.push(member);
+      grouped.add(id);
+    }
+
+    if (members.length === 0) {
+      log.warn(`Group ${group.displayName} has no devices, skipping it`);
+      continue;
+    }
+
+    resolved.push({
+      ...group,
+      ipAddress: members[0].ipAddress,
+      port: members[0].port,
+      members,
+    });
+  }
+
+  return devices
+    .filter((device) => !grouped.has(normalizeDeviceId(device.id)))
+    .concat(resolved);
+};
@@ -0,0 +1,109 @@
+import {
+  CalibrationType,
+  ColorOrderType,
+  GroupPolicyType,
+  LevelsType,
+  LightTypeNameType,
+  PatternNameType,
+  RgbColorType,
+  TimerType,
+} from '../control/types';
+
+export type CustomPatternTransitionType = 'fade' | 'jump' | 'strobe';
+
+export type CustomPatternConfigType = {
+  name: string;
+  // between 1 and 16 colors
+  colors: RgbColorType[];
+  transitionType: CustomPatternTransitionType;
+  // between 0 and 100
+  speed: number;
+};
+
+// a controller as it answered the discovery broadcast
+export type DiscoveredDeviceType = {
+  address: string;
+  // MAC address of the controller, e.g. ACCF23A1B2C3
+  id: string;
+  model: string;
+};
+
+// what a light shows when it is switched on from HomeKit
+// resume: whatever the controller shows, restore: the state last set from HomeKit,
+// fixed: a color and/or brightness, preset: a preset by name
+export type PowerOnPolicyType = 'resume' | 'restore' | 'fixed' | 'preset';
+
+export type PowerOnConfigType = {
+  policy: PowerOnPolicyType;
+  color?: RgbColorType;
+  // between 1 and 100
+  brightness?: number;
+  preset?: string;
+  // skips the color command when the controller shows the color already
+  skipRedundantColor: boolean;
+};
+
+export type DeviceConfigType = {
+  // MAC address of the controller, any other unique string for devices that cannot be discovered
+  id: string;
+  displayName: string;
+  ipAddress: string;
+  port: number;
+  // model reported by discovery
+  model?: string;
+  // skips the controller type detection for controllers that report a wrong type
+  lightType?: LightTypeNameType;
+  // how the strip is wired, auto takes it from the controller
+  channelOrder?: ColorOrderType | 'auto';
+  swapWhites?: boolean;
+  // corrects the levels for the LEDs of the strip
+  calibration?: CalibrationType;
+  debug?: boolean;
+  pollingInterval?: number;
+  pollingJitter?: number;
+  persistentConnection?: boolean;
+  effects?: boolean;
+  adaptiveLighting?: boolean;
+  // milliseconds
+  transitionDuration?: number;
+  // minutes after which the light is switched off whenever it was switched on
+  autoOff?: number;
+  // publishes a timer to switch the light off from HomeKit
+  sleepTimer?: boolean;
+  // seconds to fade down before a timer switches the light off
+  timerFadeDuration?: number;
+  // schedules written to the controller on startup, which then runs them on its own
+  timers?: TimerType[];
+  powerOn?: PowerOnConfigType;
+  // the devices of a group, which controls them as one light, the first one leads the group
+  members?: DeviceConfigType[];
+  policy?: GroupPolicyType;
+};
+
+export type GroupConfigType = Omit<
+  DeviceConfigType,
+  | 'ipAddress'
+  | 'port'
+  | 'model'
+  | 'members'
+  | 'channelOrder'
+  | 'swapWhites'
+  | 'calibration'
+> & {
+  // normalized IDs of the member devices
+  members: string[];
+  policy: GroupPolicyType;
+};
+
+export type PresetConfigType = {
+  name: string;
+  // normalized IDs of the devices the preset applies to, all devices when empty
+  devices: string[];
+  on: boolean;
+  // at most one of levels, pattern and customPattern is set, none only switches the power
+  levels?: LevelsType;
+  pattern?: PatternNameType;
+  customPattern?: CustomPatternConfigType;
+  // between 0 and 100
+  speed: number;
+};
@@ -0,0 +1,360 @@
+import { Logger } from 'homebridge';
+import { validateDevices, validatePresets } from './validation';
+
+describe('validateDevices', () => {
+  let log: Logger;
+
+  beforeEach(() => {
+    log = ({ error: jest.fn() } as unknown) as Logger;
+  });
+
+  it('applies the default port', () => {
+    const devices = validateDevices(
+      log,
+      [{ id: 'ACCF23A1B2C3', displayName: 'Kitchen', ipAddress: '10.0.0.5' }],
+      false
+    );
+
+    expect(devices).toEqual([
+      {
+        id: 'ACCF23A1B2C3',
+        displayName: 'Kitchen',
+        ipAddress: '10.0.0.5',
+        port: 5577,
+      },
+    ]);
+    expect(log.error).not.toHaveBeenCalled();
+  });
+
+  it('skips duplicate IDs, also when written differently', () => {
+    const devices = validateDevices(
+      log,
+      [
+        { id: 'ACCF23A1B2C3', displayName: 'Kitchen', ipAddress: '10.0.0.5' },
+        { id: 'ac:cf:23:a1:b2:c3', displayName: 'Hall', ipAddress: '10.0.0.6' },
+      ],
+      false
+    );
+
+    expect(devices.map((device) => device.displayName)).toEqual(['Kitchen']);
+    expect(log.error).toHaveBeenCalledWith(
+      'Config: devices[1] "ac:cf:23:a1:b2:c3" is a duplicate, skipping it'
+    );
+  });
+
+  it('requires an address unless discovery is on', () => {
+    const input = [{ id: 'ACCF23A1B2C3', displayName: 'Kitchen' }];
+
+    expect(validateDevices(log, input, false)).toEqual([]);
+    expect(log.error).toHaveBeenCalledWith(
+      'Config: devices[0] "ACCF23A1B2C3" needs an ipAddress, skipping it'
+    );
+    expect(validateDevices(log, input, true)).toHaveLength(1);
+  });
+
+  it('skips invalid ports', () => {
+    const devices = validateDevices(
+      log,
+      [
+        { id: 'a', displayName: 'A', ipAddress: '10.0.0.5', port: 0 },
+        { id: 'b', displayName: 'B', ipAddress: '10.0.0.6', port: '5577' },
+        { id: 'c', displayName: 'C', ipAddress: '10.0.0.7', port: 70000 },
+      ],
+      false
+    );
+
+    expect(devices).toEqual([]);
+    expect(log.error).toHaveBeenCalledTimes(3);
+  });
+
+  it('skips invalid timer options', () => {
+    const devices = validateDevices(
+      log,
+      [
+        { id: 'a', displayName: 'A', ipAddress: '10.0.0.5', autoOff: 120 },
+        { id: 'b', displayName: 'B', ipAddress: '10.0.0.6', autoOff: 2000 },
+        {
+          id: 'c',
+          displayName: 'C',
+          ipAddress: '10.0.0.7',
+          timerFadeDuration: -1,
+        },
+      ],
+      false
+    );
+
+    expect(devices.map((device) => device.id)).toEqual(['a']);
+    expect(log.error).toHaveBeenCalledWith(
+      'Config: devices[1] "b" needs an autoOff between 0 and 1440 minutes, skipping it'
+    );
+  });
+
+  it('skips unknown channel orders', () => {
+    const devices = validateDevices(
+      log,
+      [
+        {
+          id: 'a',
+          displayName: 'A',
+          ipAddress: '10.0.0.5',
+          channelOrder: 'GRB',
+        },
+        {
+          id: 'b',
+          displayName: 'B',
+          ipAddress: '10.0.0.6',
+          channelOrder: 'auto',
+        },
+        {
+          id: 'c',
+          displayName: 'C',
+          ipAddress: '10.0.0.7',
+          channelOrder: 'grb',
+        },
+      ],
+      false
+    );
+
+    expect(devices.map((device) => device.id)).toEqual(['a', 'b']);
+    expect(log.error).toHaveBeenCalledWith(
+      'Config: devices[2] "c" has an invalid channelOrder, use auto or one of RGB, GRB, BRG, RBG, GBR, BGR, skipping it'
+    );
+  });
+
+  it('fills in the calibration defaults and skips invalid ones', () => {
+    const devices = validateDevices(
+      log,
+      [
+        {
+          id: 'a',
+          displayName: 'A',
+          ipAddress: '10.0.0.5',
+          calibration: { gamma: 2.2, maxBlue: 180 },
+        },
+        {
+          id: 'b',
+          displayName: 'B',
+          ipAddress: '10.0.0.6',
+          calibration: { minLevel: 200, maxBlue: 180 },
+        },
+      ],
+      false
+    );
+
+    expect(devices.map((device) => device.calibration)).toEqual([
+      {
+        gamma: 2.2,
+        min: 0,
+        max: {
+          red: 255,
+          green: 255,
+          blue: 180,
+          warm_white: 255,
+          cold_white: 255,
+        },
+      },
+    ]);
+    expect(log.error).toHaveBeenCalledWith(
+      'Config: devices[1] "b" needs calibration levels between 0 and 255, with every maximum above the minLevel, skipping it'
+    );
+  });
+
+  it('parses the power-on policy', () => {
+    const devices = validateDevices(
+      log,
+      [
+        {
+          id: 'a',
+          displayName: 'A',
+          ipAddress: '10.0.0.5',
+          powerOn: { policy: 'fixed', color: '#ff8000', brightness: 40 },
+        },
+        {
+          id: 'b',
+          displayName: 'B',
+          ipAddress: '10.0.0.6',
+          powerOn: { policy: 'preset' },
+        },
+        {
+          id: 'c',
+          displayName: 'C',
+          ipAddress: '10.0.0.7',
+          powerOn: { skipRedundantColor: true },
+        },
+      ],
+      false
+    );
+
+    expect(devices.map((device) => device.powerOn)).toEqual([
+      {
+        policy: 'fixed',
+        color: { red: 255, green: 128, blue: 0 },
+        brightness: 40,
+        skipRedundantColor: false,
+      },
+      { policy: 'restore', skipRedundantColor: true },
+    ]);
+    expect(log.error).toHaveBeenCalledWith(
+      'Config: devices[1] "b" powerOn needs the name of a preset, skipping it'
+    );
+  });
+
+  it('parses the timers', () => {
+    const [device] = validateDevices(
+      log,
+      [
+        {
+          id: 'a',
+          displayName: 'A',
+          ipAddress: '10.0.0.5',
+          timers: [
+            { time: '7:30', days: ['monday', 'friday'], color: '#ff8000' },
+            { time: '23:00', date: '2024-12-24', on: false },
+          ],
+        },
+      ],
+      false
+    );
+
+    expect(device.timers).toEqual([
+      {
+        weekdays: 0x22,
+        hour: 7,
+        minute: 30,
+        action: 'on',
+        color: { red: 255, green: 128, blue: 0 },
+        warm_white: 0,
+      },
+      {
+        weekdays: 0,
+        date: { year: 2024, month: 12, day: 24 },
+        hour: 23,
+        minute: 0,
+        action: 'off',
+      },
+    ]);
+  });
+
+  it('skips devices with invalid timers', () => {
+    const devices = validateDevices(
+      log,
+      [
+        {
+          id: 'a',
+          displayName: 'A',
+          ipAddress: '10.0.0.5',
+          timers: [{ time: '25:00' }],
+        },
+      ],
+      false
+    );
+
+    expect(devices).toEqual([]);
+    expect(log.error).toHaveBeenCalledWith(
+      'Config: devices[0] "a" timers[0] needs a time as "hh:mm", skipping it'
+    );
+  });
+
+  it.each(['1999-12-31', '2024-13-01', '2024-12-00', '2256-01-01'])(
+    'skips devices with timers on %s',
+    (date) => {
+      const devices = validateDevices(
+        log,
+        [
+          {
+            id: 'a',
+            displayName: 'A',
+            ipAddress: '10.0.0.5',
+            timers: [{ time: '7:30', date }],
+          },
+        ],
+        false
+      );
+
+      expect(devices).toEqual([]);
+      expect(log.error).toHaveBeenCalledWith(
+        'Config: devices[0] "a" timers[0] needs a date between 2000-01-01 and 2255-12-31, skipping it'
+      );
+    }
+  );
+
+  it('ignores a devices section that is not a list', () => {
+    expect(validateDevices(log, { id: 'a' }, false)).toEqual([]);
+    expect(log.error).toHaveBeenCalledWith(
+      'Config: devices must be a list, ignoring it'
+    );
+  });
+});
+
+describe('validatePresets', () => {
+  let log: Logger;
+
+  beforeEach(() => {
+    log = ({ error: jest.fn() } as unknown) as Logger;
+  });
+
+  it('scales the levels by the brightness', () => {
+    const presets = validatePresets(
+      log,
+      [
+        {
+          name: 'Reading',
+          devices: ['ac:cf:23:a1:b2:c3'],
+          color: '#ff8000',
+          warmWhite: 100,
+          brightness: 50,
+        },
+      ],
+      []
+    );
+
+    expect(presets).toEqual([
+      {
+        name: 'Reading',
+        devices: ['ACCF23A1B2C3'],
+        on: true,
+        speed: 50,
+        levels: {
+          red: 128,
+          green: 64,
+          blue: 0,
+          warm_white: 50,
+          cold_white: 0,
+        },
+      },
+    ]);
+    expect(log.error).not.toHaveBeenCalled();
+  });
+
+  it('takes the speed of the custom pattern', () => {
+    const customPattern = {
+      name: 'Party',
+      colors: [{ red: 255, green: 0, blue: 0 }],
+      transitionType: 'jump' as const,
+      speed: 80,
+    };
+
+    const presets = validatePresets(
+      log,
+      [{ name: 'Party time', customPattern: 'Party' }],
+      [customPattern]
+    );
+
+    expect(presets[0]).toMatchObject({ customPattern, speed: 80 });
+  });
+
+  it('skips presets with more than one kind of content', () => {
+    const presets = validatePresets(
+      log,
+      [
+        { name: 'A', color: '#ffffff', pattern: 'seven_color_jumping' },
+        { name: 'B', on: false, warmWhite: 255 },
+        { name: 'C', pattern: 'disco' },
+      ],
+      []
+    );
+
+    expect(presets).toEqual([]);
+    expect(log.error).toHaveBeenCalledTimes(3);
+  });
+});
@@ -0,0 +1,793 @@
+import { Logger } from 'homebridge';
+import {
+  channelOrders,
+  lightTypes,
+  MAX_TIMERS,
+  patternNames,
+  weekdays,
+} from '../control/constants';
+import { CalibrationType, TimerType, WeekdayType } from '../control/types';
+import { DEFAULT_CONTROLLER_PORT, MAX_SLEEP_TIMER_DURATION } from '../settings';
+import { normalizeDeviceId } from './devices';
+import {
+  CustomPatternConfigType,
+  DeviceConfigType,
+  GroupConfigType,
+  PowerOnConfigType,
+  PowerOnPolicyType,
+  PresetConfigType,
+} from './types';
+
+const transitionTypes = ['fade', 'jump', 'strobe'];
+
+const powerOnPolicies: PowerOnPolicyType[] = [
+  'resume',
+  'restore',
+  'fixed',
+  'preset',
+];
+
+/**
+ * Parses a color given as `#rrggbb` or as `[red, green, blue]`
+ */
+export const parseColor = (color) => {
+  if (typeof color === 'string' && /^#?[0-9a-f]{6}$/i.test(color)) {
+    const value = parseInt(color.replace('#', ''), 16);
+    return {
+      red: (value >> 16) & 0xff,
+      green: (value >> 8) & 0xff,
+      blue: value & 0xff,
+    };
+  }
+
+  if (
+    Array.isArray(color) &&
+    color.length === 3 &&
+    color.every((c) => Number.isInteger(c) && c >= 0 && c <= 255)
+  ) {
+    return { red: color[0], green: color[1], blue: color[2] };
+  }
+
+  return null;
+};
+
+/**
+ * Validates the `customPatterns` section of the platform config.
+ * Invalid entries are logged and skipped, so one typo does not disable the whole plugin.
+ */
+export const validateCustomPatterns = (
+  log: Logger,
+  input
+): CustomPatternConfigType[] => {
+  if (input === undefined) {
+    return [];
+  }
+
+  if (!Array.isArray(input)) {
+    log.error('Config: customPatterns must be a list, ignoring it');
+    return [];
+  }
+
+  const customPatterns: CustomPatternConfigType[] = [];
+
+  input.forEach((entry, index) => {
+    const label = `customPatterns[${index}]`;
+
+    if (!entry || typeof entry.name !== 'string' || entry.name === '') {
+      log.error(`Config: ${label} needs a name, skipping it`);
+      return;
+    }
+
+    if (customPatterns.some((pattern) => pattern.name === entry.name)) {
+      log.error(`Config: ${label} "${entry.name}" is a duplicate, skipping it`);
+      return;
+    }
+
+    if (
+      !Array.isArray(entry.colors) ||
+      entry.colors.length < 1 ||
+      entry.colors.length > 16
+    ) {
+      log.error(
+        `Config: ${label} "${entry.name}" needs between 1 and 16 colors, skipping it`
+      );
+      return;
+    }
+
+    const colors = entry.colors.map(parseColor);
+    const invalidColor = colors.indexOf(null);
+    if (invalidColor !== -1) {
+      log.error(
+        `Config: ${label} "${entry.name}" has an invalid color at position ${invalidColor}, ` +
+          'use "#rrggbb" or [red, green, blue], skipping it'
+      );
+      return;
+    }
+
+    const transitionType =
+      entry.transitionType === undefined ? 'fade' : entry.transitionType;
+    if (!transitionTypes.includes(transitionType)) {
+      log.error(
+        `Config: ${label} "${entry.name}" has an invalid transitionType, ` +
+          `use one of ${transitionTypes.join(', ')}, skipping it`
+      );
+      return;
+    }
+
+    const speed = entry.speed === undefined ? 50 : entry.speed;
+    if (typeof speed !== 'number' || speed < 0 || speed > 100) {
+      log.error(
+        `Config: ${label} "${entry.name}" needs a speed between 0 and 100, skipping it`
+      );
+      return;
+    }
+
+    customPatterns.push({
+      name: entry.name,
+      colors,
+      transitionType,
+      speed,
+    });
+  });
+
+  return customPatterns;
+};
+
+const isLevel = (value, max) =>
+  typeof value === 'number' && value >= 0 && value <= max;
+
+/**
+ * Parses the `timers` option of a device or group into the timers stored on the controller.
+ * Returns undefined without timers, so the timers on the controller are left alone, and null for invalid timers.
+ */
+const validateTimers = (
+  log: Logger,
+  label: string,
+  input
+): TimerType[] | undefined | null => {
+  if (input === undefined) {
+    return undefined;
+  }
+
+  if (!Array.isArray(input) || input.length > MAX_TIMERS) {
+    log.error(
+      `Config: ${label} needs a list of at most ${MAX_TIMERS} timers, skipping it`
+    );
+    return null;
+  }
+
+  const timers: TimerType[] = [];
+
+  for (const [index, entry] of input.entries()) {
+    const invalid = (reason: string) => {
+      log.error(`Config: ${label} timers[${index}] ${reason}, skipping it`);
+      return null;
+    };
+
+    const time = /^(\d{1,2}):(\d{2})$/.exec(entry?.time);
+    if (!time || Number(time[1]) > 23 || Number(time[2]) > 59) {
+      return invalid('needs a time as "hh:mm"');
+    }
+
+    const timer: TimerType = {
+      weekdays: 0,
+      hour: Number(time[1]),
+      minute: Number(time[2]),
+      action: entry.on === false ? 'off' : 'on',
+    };
+
+    if (entry.date !== undefined) {
+      const date = /^(\d{4})-(\d{2})-(\d{2})$/.exec(entry.date);
+      if (!date || entry.days !== undefined) {
+        return invalid('needs either days or a date as "yyyy-mm-dd"');
+      }
+      timer.date = {
+        year: Number(date[1]),
+        month: Number(date[2]),
+        day: Number(date[3]),
+      };
+      // controllers store the year as an offset from 2000 in a single byte
+      if (
+        timer.date.year < 2000 ||
+        timer.date.year > 2255 ||
+        timer.date.month < 1 ||
+        timer.date.month > 12 ||
+        timer.date.day < 1 ||
+        timer.date.day > 31
+      ) {
+        return invalid('needs a date between 2000-01-01 and 2255-12-31');
+      }
+    } else {
+      const days: string[] =
+        entry.days === undefined ? Object.keys(weekdays) : entry.days;
+      if (
+        !Array.isArray(days) ||
+        days.length === 0 ||
+        !days.every((day) => day in weekdays)
+      ) {
+        return invalid(`needs days out of ${Object.keys(weekdays).join(', ')}`);
+      }
+      for (const day of days) {
+        timer.weekdays |= weekdays[day as WeekdayType];
+      }
+    }
+
+    const hasLevels =
+      entry.color !== undefined || entry.warmWhite !== undefined;
+    if (timer.action === 'off' && (hasLevels || entry.pattern !== undefined)) {
+      return invalid(
+        'can only switch the light off without a color or pattern'
+      );
+    }
+    if (hasLevels && entry.pattern !== undefined) {
+      return invalid('needs either colors or a pattern');
+    }
+
+    if (hasLevels) {
+      const color =
+        entry.color === undefined
+          ? { red: 0, green: 0, blue: 0 }
+          : parseColor(entry.color);
+      const warmWhite = entry.warmWhite === undefined ? 0 : entry.warmWhite;
+      if (color === null || !isLevel(warmWhite, 255)) {
+        return invalid(
+          'needs a color as "#rrggbb" or [red, green, blue] and a warmWhite between 0 and 255'
+        );
+      }
+      timer.color = color;
+      timer.warm_white = warmWhite;
+    }
+
+    if (entry.pattern !== undefined) {
+      const speed = entry.speed === undefined ? 50 : entry.speed;
+      if (!patternNames.includes(entry.pattern) || !isLevel(speed, 100)) {
+        return invalid(
+          'needs a built-in pattern and a speed between 0 and 100'
+        );
+      }
+      timer.pattern = entry.pattern;
+      timer.speed = speed;
+    }
+
+    timers.push(timer);
+  }
+
+  return timers;
+};
+
+/**
+ * Parses the `calibration` option of a device, the maximum levels of all channels have to be above the minimum.
+ * Returns undefined without a calibration and null for an invalid one.
+ */
+const validateCalibration = (
+  log: Logger,
+  label: string,
+  input
+): CalibrationType | undefined | null => {
+  if (input === undefined) {
+    return undefined;
+  }
+
+  if (typeof input !== 'object' || input === null) {
+    log.error(`Config: ${label} has an invalid calibration, skipping it`);
+    return null;
+  }
+
+  const gamma = input.gamma === undefined ? 1 : input.gamma;
+  if (typeof gamma !== 'number' || gamma <= 0) {
+    log.error(
+      `Config: ${label} needs a calibration gamma above 0, skipping it`
+    );
+    return null;
+  }
+
+  const level = (value) => (value === undefined ? 255 : value);
+  const calibration: CalibrationType = {
+    gamma,
+    min: input.minLevel === undefined ? 0 : input.minLevel,
+    max: {
+      red: level(input.maxRed),
+      green: level(input.maxGreen),
+      blue: level(input.maxBlue),
+      warm_white: level(input.maxWarmWhite),
+      cold_white: level(input.maxColdWhite),
+    },
+  };
+
+  if (
+    !isLevel(calibration.min, 255) ||
+    !Object.values(calibration.max).every(
+      (max) => isLevel(max, 255) && max > calibration.min
+    )
+  ) {
+    log.error(
+      `Config: ${label} needs calibration levels between 0 and 255, with every maximum above the minLevel, skipping it`
+    );
+    return null;
+  }
+
+  return calibration;
+};
+
+/**
+ * Parses the `powerOn` option of a device or group, whether a preset exists is only known once the presets are read.
+ * Returns undefined without the option, so the last HomeKit state is restored, and null for an invalid one.
+ */
+const validatePowerOn = (
+  log: Logger,
+  label: string,
+  input
+): PowerOnConfigType | undefined | null => {
+  if (input === undefined) {
+    return undefined;
+  }
+
+  const invalid = (reason: string) => {
+    log.error(`Config: ${label} powerOn ${reason}, skipping it`);
+    return null;
+  };
+
+  if (typeof input !== 'object' || input === null) {
+    return invalid('needs to be an object');
+  }
+
+  const policy = input.policy === undefined ? 'restore' : input.policy;
+  if (!powerOnPolicies.includes(policy)) {
+    return invalid(`needs a policy out of ${powerOnPolicies.join(', ')}`);
+  }
+
+  const powerOn: PowerOnConfigType = {
+    policy,
+    skipRedundantColor: input.skipRedundantColor === true,
+  };
+
+  if (policy === 'fixed') {
+    if (input.color === undefined && input.brightness === undefined) {
+      return invalid('needs a color and/or a brightness');
+    }
+
+    if (input.color !== undefined) {
+      const color = parseColor(input.color);
+      if (color === null) {
+        return invalid('needs a color as "#rrggbb" or [red, green, blue]');
+      }
+      powerOn.color = color;
+    }
+
+    if (input.brightness !== undefined) {
+      if (!isLevel(input.brightness, 100) || input.brightness === 0) {
+        return invalid('needs a brightness between 1 and 100');
+      }
+      powerOn.brightness = input.brightness;
+    }
+  }
+
+  if (policy === 'preset') {
+    if (typeof input.preset !== 'string' || input.preset === '') {
+      return invalid('needs the name of a preset');
+    }
+    powerOn.preset = input.preset;
+  }
+
+  return powerOn;
+};
+
+/**
+ * Validates the options devices and groups share, logs the first invalid one
+ */
+const validateLightOptions = (log: Logger, label: string, entry) => {
+  if (entry.lightType !== undefined && !(entry.lightType in lightTypes)) {
+    log.error(
+      `Config: ${label} has an invalid lightType, ` +
+        `use one of ${Object.keys(lightTypes).join(', ')}, skipping it`
+    );
+    return false;
+  }
+
+  if (
+    entry.transitionDuration !== undefined &&
+    (typeof entry.transitionDuration !== 'number' ||
+      entry.transitionDuration < 0)
+  ) {
+    log.error(
+      `Config: ${label} needs a transitionDuration of 0 or more milliseconds, skipping it`
+    );
+    return false;
+  }
+
+  if (
+    entry.autoOff !== undefined &&
+    !isLevel(entry.autoOff, MAX_SLEEP_TIMER_DURATION / 60)
+  ) {
+    log.error(
+      `Config: ${label} needs an autoOff between 0 and ${
+        MAX_SLEEP_TIMER_DURATION / 60
+      } minutes, skipping it`
+    );
+    return false;
+  }
+
+  if (
+    entry.timerFadeDuration !== undefined &&
+    (typeof entry.timerFadeDuration !== 'number' || entry.timerFadeDuration < 0)
+  ) {
+    log.error(
+      `Config: ${label} needs a timerFadeDuration of 0 or more seconds, skipping it`
+    );
+    return false;
+  }
+
+  return true;
+};
+
+/**
+ * Validates the `devices` section of the platform config.
+ * Devices without an ID, with a duplicate ID, with an invalid port or option, or without an address while discovery is off,
+ * are logged and skipped instead of failing later when their accessories are set up.
+ */
+export const validateDevices = (
+  log: Logger,
+  input,
+  discover: boolean
+): DeviceConfigType[] => {
+  if (input === undefined) {
+    return [];
+  }
+
+  if (!Array.isArray(input)) {
+    log.error('Config: devices must be a list, ignoring it');
+    return [];
+  }
+
+  const devices: DeviceConfigType[] = [];
+
+  input.forEach((entry, index) => {
+    const label = `devices[${index}]`;
+
+    if (!entry || typeof entry.id !== 'string' || entry.id === '') {
+      log.error(`Config: ${label} needs an id, skipping it`);
+      return;
+    }
+
+    const id = normalizeDeviceId(entry.id);
+    if (devices.some((device) => normalizeDeviceId(device.id) === id)) {
+      log.error(`Config: ${label} "${entry.id}" is a duplicate, skipping it`);
+      return;
+    }
+
+    if (typeof entry.displayName !== 'string' || entry.displayName === '') {
+      log.error(
+        `Config: ${label} "${entry.id}" needs a displayName, skipping it`
+      );
+      return;
+    }
+
+    if (entry.ipAddress === undefined || entry.ipAddress === '') {
+      // discovered devices only need an address when they are not found
+      if (!discover) {
+        log.error(
+          `Config: ${label} "${entry.id}" needs an ipAddress, skipping it`
+        );
+        return;
+      }
+    } else if (typeof entry.ipAddress !== 'string') {
+      log.error(
+        `Config: ${label} "${entry.id}" has an invalid ipAddress, skipping it`
+      );
+      return;
+    }
+
+    const port =
+      entry.port === undefined ? DEFAULT_CONTROLLER_PORT : entry.port;
+    if (!Number.isInteger(port) || port < 1 || port > 65535) {
+      log.error(
+        `Config: ${label} "${entry.id}" needs a port between 1 and 65535, skipping it`
+      );
+      return;
+    }
+
+    if (!validateLightOptions(log, `${label} "${entry.id}"`, entry)) {
+      return;
+    }
+
+    if (
+      entry.channelOrder !== undefined &&
+      entry.channelOrder !== 'auto' &&
+      !(entry.channelOrder in channelOrders)
+    ) {
+      log.error(
+        `Config: ${label} "${entry.id}" has an invalid channelOrder, ` +
+          `use auto or one of ${Object.keys(channelOrders).join(
+            ', '
+          )}, skipping it`
+      );
+      return;
+    }
+
+    const calibration = validateCalibration(
+      log,
+      `${label} "${entry.id}"`,
+      entry.calibration
+    );
+    if (calibration === null) {
+      return;
+    }
+
+    const timers = validateTimers(log, `${label} "${entry.id}"`, entry.timers);
+    if (timers === null) {
+      return;
+    }
+
+    const powerOn = validatePowerOn(
+      log,
+      `${label} "${entry.id}"`,
+      entry.powerOn
+    );
+    if (powerOn === null) {
+      return;
+    }
+
+    devices.push({ ...entry, port, calibration, timers, powerOn });
+  });
+
+  return devices;
+};
+
+const groupPolicies = ['leader', 'majority'];
+
+/**
+ * Validates the `groups` section of the platform config.
+ * Groups without an ID or members, with an ID taken by another group or a configured device, or with a member
+ * of another group, are logged and skipped. Whether the members exist is only known after discovery.
+ */
+export const validateGroups = (
+  log: Logger,
+  input,
+  devices: DeviceConfigType[]
+): GroupConfigType[] => {
+  if (input === undefined) {
+    return [];
+  }
+
+  if (!Array.isArray(input)) {
+    log.error('Config: groups must be a list, ignoring it');
+    return [];
+  }
+
+  const groups: GroupConfigType[] = [];
+
+  input.forEach((entry, index) => {
+    const label = `groups[${index}]`;
+
+    if (!entry || typeof entry.id !== 'string' || entry.id === '') {
+      log.error(`Config: ${label} needs an id, skipping it`);
+      return;
+    }
+
+    const id = normalizeDeviceId(entry.id);
+    if (
+      groups.some((group) => normalizeDeviceId(group.id) === id) ||
+      devices.some((device) => normalizeDeviceId(device.id) === id)
+    ) {
+      log.error(`Config: ${label} "${entry.id}" is a duplicate, skipping it`);
+      return;
+    }
+
+    if (typeof entry.displayName !== 'string' || entry.displayName === '') {
+      log.error(
+        `Config: ${label} "${entry.id}" needs a displayName, skipping it`
+      );
+      return;
+    }
+
+    if (
+      !Array.isArray(entry.members) ||
+      entry.members.length === 0 ||
+      !entry.members.every((member) => typeof member === 'string')
+    ) {
+      log.error(
+        `Config: ${label} "${entry.id}" needs a list of member device IDs, skipping it`
+      );
+      return;
+    }
+
+    const members: string[] = entry.members.map(normalizeDeviceId);
+    const taken = members.find((member) =>
+      groups.some((group) => group.members.includes(member))
+    );
+    if (taken !== undefined) {
+      log.error(
+        `Config: ${label} "${entry.id}" shares the device ${taken} with another group, skipping it`
+      );
+      return;
+    }
+
+    const policy = entry.policy === undefined ? 'leader' : entry.policy;
+    if (!groupPolicies.includes(policy)) {
+      log.error(
+        `Config: ${label} "${entry.id}" has an invalid policy, ` +
+          `use one of ${groupPolicies.join(', ')}, skipping it`
+      );
+      return;
+    }
+
+    if (!validateLightOptions(log, `${label} "${entry.id}"`, entry)) {
+      return;
+    }
+
+    const timers = validateTimers(log, `${label} "${entry.id}"`, entry.timers);
+    if (timers === null) {
+      return;
+    }
+
+    const powerOn = validatePowerOn(
+      log,
+      `${label} "${entry.id}"`,
+      entry.powerOn
+    );
+    if (powerOn === null) {
+      return;
+    }
+
+    groups.push({
+      ...entry,
+      members: [...new Set(members)],
+      policy,
+      timers,
+      powerOn,
+    });
+  });
+
+  return groups;
+};
+
+/**
+ * Validates the `presets` section of the platform config.
+ * A preset sets either a color and/or white levels, a built-in pattern or a custom pattern, or only the power.
+ * Invalid entries are logged and skipped.
+ */
+export const validatePresets = (
+  log: Logger,
+  input,
+  customPatterns: CustomPatternConfigType[]
+): PresetConfigType[] => {
+  if (input === undefined) {
+    return [];
+  }
+
+  if (!Array.isArray(input)) {
+    log.error('Config: presets must be a list, ignoring it');
+    return [];
+  }
+
+  const presets: PresetConfigType[] = [];
+
+  input.forEach((entry, index) => {
+    const label = `presets[${index}]`;
+
+    if (!entry || typeof entry.name !== 'string' || entry.name === '') {
+      log.error(`Config: ${label} needs a name, skipping it`);
+      return;
+    }
+
+    if (presets.some((preset) => preset.name === entry.name)) {
+      log.error(`Config: ${label} "${entry.name}" is a duplicate, skipping it`);
+      return;
+    }
+
+    const devices = entry.devices === undefined ? [] : entry.devices;
+    if (
+      !Array.isArray(devices) ||
+      !devices.every((id) => typeof id === 'string')
+    ) {
+      log.error(
+        `Config: ${label} "${entry.name}" needs a list of device IDs, skipping it`
+      );
+      return;
+    }
+
+    const on = entry.on === undefined ? true : entry.on;
+    const hasLevels =
+      entry.color !== undefined ||
+      entry.warmWhite !== undefined ||
+      entry.coldWhite !== undefined;
+    const contents = [
+      hasLevels,
+      entry.pattern !== undefined,
+      entry.customPattern !== undefined,
+    ].filter(Boolean).length;
+
+    if (typeof on !== 'boolean' || (!on && contents > 0)) {
+      log.error(
+        `Config: ${label} "${entry.name}" can only switch the light off without a color or pattern, skipping it`
+      );
+      return;
+    }
+
+    if (contents > 1) {
+      log.error(
+        `Config: ${label} "${entry.name}" needs either colors, a pattern or a customPattern, skipping it`
+      );
+      return;
+    }
+
+    const preset: PresetConfigType = {
+      name: entry.name,
+      devices: devices.map(normalizeDeviceId),
+      on,
+      speed: 50,
+    };
+
+    if (hasLevels) {
+      const color =
+        entry.color === undefined
+          ? { red: 0, green: 0, blue: 0 }
+          : parseColor(entry.color);
+      const warmWhite = entry.warmWhite === undefined ? 0 : entry.warmWhite;
+      const coldWhite = entry.coldWhite === undefined ? 0 : entry.coldWhite;
+      const brightness =
+        entry.brightness === undefined ? 100 : entry.brightness;
+
+      if (
+        color === null ||
+        !isLevel(warmWhite, 255) ||
+        !isLevel(coldWhite, 255) ||
+        !isLevel(brightness, 100)
+      ) {
+        log.error(
+          `Config: ${label} "${entry.name}" needs a color as "#rrggbb" or [red, green, blue], ` +
+            'white levels between 0 and 255 and a brightness between 0 and 100, skipping it'
+        );
+        return;
+      }
+
+      const scale = (value: number) => Math.round((value * brightness) / 100);
+      preset.levels = {
+        red: scale(color.red),
+        green: scale(color.green),
+        blue: scale(color.blue),
+        warm_white: scale(warmWhite),
+        cold_white: scale(coldWhite),
+      };
+    }
+
+    if (entry.pattern !== undefined) {
+      if (!patternNames.includes(entry.pattern)) {
+        log.error(
+          `Config: ${label} "${entry.name}" has an unknown pattern, ` +
+            `use one of ${patternNames.join(', ')}, skipping it`
+        );
+        return;
+      }
+      preset.pattern = entry.pattern;
+    }
+
+    if (entry.customPattern !== undefined) {
+      const customPattern = customPatterns.find(
+        (pattern) => pattern.name === entry.customPattern
+      );
+      if (!customPattern) {
+        log.error(
+          `Config: ${label} "${entry.name}" refers to an unknown customPattern, skipping it`
+        );
+        return;
+      }
+      preset.customPattern = customPattern;
+      preset.speed = customPattern.speed;
+    }
+
+    if (entry.speed !== undefined) {
+      if (!isLevel(entry.speed, 100)) {
+        log.error(
+          `Config: ${label} "${entry.name}" needs a speed between 0 and 100, skipping it`
+        );
+        return;
+      }
+      preset.speed = entry.speed;
+    }
+
+    presets.push(preset);
+  });
+
+  return presets;
+};
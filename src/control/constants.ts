@@ -1,3 +1,5 @@
+import { ColorOrderType, ControllerTypeType } from './types';
+
 export const patterns = Object.freeze({
   seven_color_cross_fade: 0x25,
   red_gradual_change: 0x26,
@@ -23,5 +25,86 @@ export const patterns = Object.freeze({
 
 export const patternNames = Object.keys(patterns);
 
-// some controllers send their responses in multiple chunks, and we only know that we got the full message, if the controller doesn't send something for a while
+// channels available on each kind of light
+export const lightTypes = Object.freeze({
+  dimmer: { color: false, warmWhite: true, coldWhite: false },
+  rgb: { color: true, warmWhite: false, coldWhite: false },
+  rgbw: { color: true, warmWhite: true, coldWhite: false },
+  rgbww: { color: true, warmWhite: true, coldWhite: true },
+  rgbcw: { color: true, warmWhite: true, coldWhite: true },
+});
+
+// the channel of the color each output of the controller drives, in the order red, green and blue output
+export const channelOrders = Object.freeze({
+  RGB: ['red', 'green', 'blue'],
+  GRB: ['green', 'red', 'blue'],
+  BRG: ['blue', 'red', 'green'],
+  RBG: ['red', 'blue', 'green'],
+  GBR: ['green', 'blue', 'red'],
+  BGR: ['blue', 'green', 'red'],
+} as const);
+
+// channel orders by the wiring byte of the query response, for controllers that report how the strip is wired
+export const wiringOrders: Readonly<Record<
+  number,
+  ColorOrderType
+>> = Object.freeze({
+  0x01: 'RGB',
+  0x02: 'RBG',
+  0x03: 'GRB',
+  0x04: 'GBR',
+  0x05: 'BRG',
+  0x06: 'BGR',
+});
+
+// known controllers, keyed by the type byte of the query response
+export const controllerTypes: Readonly<Record<
+  number,
+  ControllerTypeType
+>> = Object.freeze({
+  0x01: { lightType: 'rgb', applyMasks: false },
+  0x04: { lightType: 'rgbw', applyMasks: false },
+  0x06: { lightType: 'rgbw', applyMasks: false },
+  0x07: { lightType: 'rgbww', applyMasks: false },
+  0x21: { lightType: 'dimmer', applyMasks: false },
+  0x25: { lightType: 'rgbww', applyMasks: true },
+  0x33: { lightType: 'rgb', applyMasks: false },
+  0x35: { lightType: 'rgbcw', applyMasks: true },
+  0x41: { lightType: 'dimmer', applyMasks: false },
+  0x44: { lightType: 'rgbw', applyMasks: true },
+});
+
+// some controllers send their responses in multiple chunks,
+// and we only know that we got the full message, if the controller doesn't send something for a while
 export const RESPONSE_TIMEOUT = 500; // 0.5 sec
+
+// size of the reply to a state query, including the checksum
+export const STATE_RESPONSE_LENGTH = 14;
+
+// range of the HomeKit ColorTemperature characteristic in mireds, from cold to warm
+export const MIN_MIREDS = 140; // ~7143K
+export const MAX_MIREDS = 500; // 2000K
+
+// how often a broken persistent connection is reopened before the queued commands are rejected
+export const MAX_RECONNECT_ATTEMPTS = 3;
+
+// milliseconds between two frames of a transition, on top of the time the controller takes to acknowledge a frame
+export const TRANSITION_FRAME_INTERVAL = 50;
+
+// acknowledgements of color commands arrive in one piece, so frames don't have to wait for the full RESPONSE_TIMEOUT
+export const TRANSITION_RESPONSE_TIMEOUT = 30;
+
+// bits of the weekday mask of on-device timers, bit 0 is unused
+export const weekdays = Object.freeze({
+  monday: 0x02,
+  tuesday: 0x04,
+  wednesday: 0x08,
+  thursday: 0x10,
+  friday: 0x20,
+  saturday: 0x40,
+  sunday: 0x80,
+});
+
+// number of timer slots of a controller, and the size of one slot in the timer packets
+export const MAX_TIMERS = 6;
+export const TIMER_LENGTH = 14;
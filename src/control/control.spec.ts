@@ -0,0 +1,681 @@
+import { CustomMode } from 'magic-home';
+import Control from './control';
+import { MAX_RECONNECT_ATTEMPTS } from './constants';
+import {
+  CommandTimeoutError,
+  ConnectionError,
+  ConnectionRefusedError,
+  ControlError,
+  InvalidArgumentError,
+  ShortReplyError,
+} from './errors';
+import { speedToDelay } from './helpers';
+import { CustomModeType, PatternNameType } from './types';
+import FakeController from '../testing/fakeController';
+
+describe('Control', () => {
+  let fake: FakeController;
+  let port: number;
+
+  const createControl = (options?) =>
+    new Control('127.0.0.1', port, {
+      commandTimeoutLength: 300,
+      ...options,
+    });
+
+  beforeEach(async () => {
+    fake = new FakeController();
+    port = await fake.listen();
+  });
+
+  afterEach(async () => {
+    await fake.close();
+  });
+
+  describe('setPower', () => {
+    it('turns the light on and off', async () => {
+      const control = createControl();
+
+      await expect(control.setPower(true)).resolves.toBe(true);
+      expect(fake.state.on).toBe(true);
+
+      await expect(control.setPower(false)).resolves.toBe(true);
+      expect(fake.state.on).toBe(false);
+
+      expect(fake.commands).toEqual([
+        Buffer.from([0x71, 0x23, 0x0f]),
+        Buffer.from([0x71, 0x24, 0x0f]),
+      ]);
+      expect(fake.invalidCommands).toEqual([]);
+    });
+  });
+
+  describe('setColor', () => {
+    it('sends the previous warm white value without masks', async () => {
+      fake.state.warmWhite = 0x40;
+      const control = createControl();
+
+      await control.queryState();
+      await expect(control.setColor(10, 20, 30)).resolves.toBe(true);
+
+      expect(fake.commands[1]).toEqual(
+        Buffer.from([0x31, 10, 20, 30, 0x40, 0x00, 0x0f])
+      );
+      expect(fake.state).toMatchObject({
+        red: 10,
+        green: 20,
+        blue: 30,
+        warmWhite: 0x40,
+      });
+    });
+
+    it('only sets the colors with masks', async () => {
+      fake.state.warmWhite = 0x40;
+      const control = createControl({ applyMasks: true });
+
+      await control.setColor(10, 20, 30);
+
+      expect(fake.commands[0]).toEqual(
+        Buffer.from([0x31, 10, 20, 30, 0x00, 0xf0, 0x0f])
+      );
+      expect(fake.state.warmWhite).toBe(0x40);
+    });
+
+    it('clamps the color values', async () => {
+      const control = createControl();
+
+      await control.setColor(-5, 300, 128);
+
+      expect(fake.commands[0]).toEqual(
+        Buffer.from([0x31, 0, 255, 128, 0x00, 0x00, 0x0f])
+      );
+    });
+
+    it('sends the cold white byte with cold white support', async () => {
+      fake.set({ coldWhiteSupport: true });
+      const control = createControl({ coldWhiteSupport: true });
+
+      await control.setWhitesOnly(0x10, 0x20);
+
+      expect(fake.commands[0]).toEqual(
+        Buffer.from([0x31, 0, 0, 0, 0x10, 0x20, 0x00, 0x0f])
+      );
+      expect(fake.state).toMatchObject({ warmWhite: 0x10, coldWhite: 0x20 });
+    });
+
+    it('sends the channels in the order of the strip', async () => {
+      fake.set({ coldWhiteSupport: true });
+      const control = createControl({
+        coldWhiteSupport: true,
+        channelOrder: 'GRB',
+        swapWhites: true,
+      });
+
+      await control.setColor(10, 20, 30);
+      await control.setWhitesOnly(0x10, 0x20);
+
+      expect(fake.commands[0]).toEqual(
+        Buffer.from([0x31, 20, 10, 30, 0x00, 0x00, 0x00, 0x0f])
+      );
+      expect(fake.commands[1]).toEqual(
+        Buffer.from([0x31, 0, 0, 0, 0x20, 0x10, 0x00, 0x0f])
+      );
+    });
+
+    it('drops queued color commands superseded by a newer one', async () => {
+      const control = createControl();
+
+      const results = await Promise.all([
+        control.setColor(1, 1, 1),
+        control.setColor(2, 2, 2),
+        control.setColor(3, 3, 3),
+      ]);
+
+      expect(results).toEqual([true, true, true]);
+      expect(fake.commands).toEqual([
+        Buffer.from([0x31, 1, 1, 1, 0x00, 0x00, 0x0f]),
+        Buffer.from([0x31, 3, 3, 3, 0x00, 0x00, 0x0f]),
+      ]);
+      expect(fake.state).toMatchObject({ red: 3, green: 3, blue: 3 });
+    });
+
+    it('keeps color commands queued behind other commands', async () => {
+      const control = createControl();
+
+      await Promise.all([
+        control.setColor(1, 1, 1),
+        control.setColor(2, 2, 2),
+        control.setPower(true),
+        control.setColor(3, 3, 3),
+      ]);
+
+      expect(fake.commands.map((command) => command[1])).toEqual([
+        1,
+        2,
+        0x23,
+        3,
+      ]);
+    });
+  });
+
+  describe('setPattern', () => {
+    it('starts a built-in pattern', async () => {
+      const control = createControl();
+
+      await expect(control.setPattern('red_strobe_flash', 100)).resolves.toBe(
+        true
+      );
+
+      expect(fake.commands[0]).toEqual(
+        Buffer.from([0x61, 0x31, speedToDelay(100), 0x0f])
+      );
+      expect(fake.state.mode).toBe(0x31);
+    });
+
+    it('rejects unknown patterns without connecting', async () => {
+      const control = createControl();
+
+      await expect(
+        control.setPattern('disco' as PatternNameType, 50)
+      ).rejects.toThrow(InvalidArgumentError);
+      expect(fake.connections).toBe(0);
+    });
+  });
+
+  describe('setIAPattern', () => {
+    it('offsets the pattern code by 99', async () => {
+      const control = createControl();
+
+      await control.setIAPattern(200, 40);
+
+      expect(fake.commands[0]).toEqual(
+        Buffer.from([0x61, 0x01, 0x2b, 40, 0x0f])
+      );
+      expect(fake.state.iaPattern).toBe(299);
+    });
+
+    it('rejects codes outside of 1 to 300', async () => {
+      const control = createControl();
+
+      await expect(control.setIAPattern(301, 40)).rejects.toThrow(
+        InvalidArgumentError
+      );
+    });
+  });
+
+  describe('setCustomPattern', () => {
+    it('sends 16 colors padded with the filler color', async () => {
+      const control = createControl();
+      const pattern = new CustomMode()
+        .addColor(255, 0, 0)
+        .addColor(0, 0, 255)
+        .setTransitionType('strobe');
+
+      await expect(control.setCustomPattern(pattern, 50)).resolves.toBe(true);
+
+      const command = fake.commands[0];
+      expect(command.length).toBe(69);
+      expect(command.slice(1, 9)).toEqual(
+        Buffer.from([255, 0, 0, 0, 0, 0, 255, 0])
+      );
+      expect(command.slice(9, 13)).toEqual(Buffer.from([1, 2, 3, 0]));
+      expect(command.slice(65)).toEqual(
+        Buffer.from([speedToDelay(50), 0x3c, 0xff, 0x0f])
+      );
+      expect(fake.state.mode).toBe(0x60);
+    });
+
+    it('rejects patterns without colors', async () => {
+      const control = createControl();
+
+      await expect(
+        control.setCustomPattern(
+          { colors: [], transitionType: 'fade' } as CustomModeType,
+          50
+        )
+      ).rejects.toThrow(InvalidArgumentError);
+    });
+  });
+
+  describe('queryState', () => {
+    it('decodes the reply', async () => {
+      Object.assign(fake.state, {
+        on: true,
+        red: 1,
+        green: 2,
+        blue: 3,
+        warmWhite: 4,
+        coldWhite: 5,
+      });
+      const control = createControl();
+
+      await expect(control.queryState()).resolves.toEqual({
+        type: 0x33,
+        on: true,
+        mode: 'color',
+        color: { red: 1, green: 2, blue: 3 },
+        warm_white: 4,
+        cold_white: 5,
+        firmware: 0x05,
+        wiring: 0xf0,
+      });
+    });
+
+    it('reports the running pattern', async () => {
+      const control = createControl();
+      await control.setPattern('seven_color_jumping', 50);
+
+      const state = await control.queryState();
+
+      expect(state).toMatchObject({
+        mode: 'pattern',
+        pattern: 'seven_color_jumping',
+        speed: 50,
+      });
+    });
+
+    it('reports the channels in the order of the strip', async () => {
+      fake.set({ type: 0x35, coldWhiteSupport: true });
+      Object.assign(fake.state, { red: 1, green: 2, blue: 3, warmWhite: 4 });
+      const control = createControl({ channelOrder: 'BRG', swapWhites: true });
+
+      const state = await control.queryState();
+
+      expect(state).toMatchObject({
+        color: { red: 2, green: 3, blue: 1 },
+        warm_white: 0,
+        cold_white: 4,
+      });
+      expect(control.levels).toMatchObject({ red: 2, cold_white: 4 });
+    });
+
+    it('corrects the calibration of the strip back', async () => {
+      const control = createControl({
+        calibration: {
+          gamma: 2,
+          min: 10,
+          max: {
+            red: 255,
+            green: 255,
+            blue: 200,
+            warm_white: 255,
+            cold_white: 255,
+          },
+        },
+      });
+
+      await control.setColor(255, 128, 0);
+      const state = await control.queryState();
+
+      expect(fake.commands[0]).toEqual(
+        Buffer.from([0x31, 255, 72, 0, 0x00, 0x00, 0x0f])
+      );
+      expect(state.color).toEqual({ red: 255, green: 128, blue: 0 });
+    });
+
+    it('detects the channel order from the reported wiring', async () => {
+      fake.state.wiring = 0x03;
+      const control = createControl({ channelOrder: 'auto' });
+
+      await control.queryState();
+      await control.setColor(10, 20, 30);
+
+      expect(fake.commands[1]).toEqual(
+        Buffer.from([0x31, 20, 10, 30, 0x00, 0x00, 0x0f])
+      );
+    });
+
+    it('assembles chunked replies', async () => {
+      fake.set({ chunkSize: 5, chunkDelay: 20 });
+      fake.state.red = 0x42;
+      const control = createControl();
+
+      const state = await control.queryState();
+
+      expect(state.color.red).toBe(0x42);
+    });
+
+    it('enables masks for controllers which require them', async () => {
+      fake.set({ type: 0x44 });
+      const control = createControl();
+
+      await control.queryState();
+      await control.setColor(10, 20, 30);
+
+      expect(fake.commands[1]).toEqual(
+        Buffer.from([0x31, 10, 20, 30, 0x00, 0xf0, 0x0f])
+      );
+    });
+
+    it('rejects short replies', async () => {
+      fake.set({ truncateReplies: 10 });
+      const control = createControl();
+
+      await expect(control.queryState()).rejects.toThrow(ShortReplyError);
+    });
+  });
+
+  describe('fadeTo', () => {
+    const black = { red: 0, green: 0, blue: 0, warm_white: 0, cold_white: 0 };
+
+    it('streams intermediate frames and ends at the target', async () => {
+      const control = createControl();
+
+      await expect(
+        control.fadeTo({ ...black, red: 200, warm_white: 100 }, 300)
+      ).resolves.toBe(true);
+
+      expect(fake.commands.length).toBeGreaterThan(2);
+      const reds = fake.commands.map((command) => command[1]);
+      expect(reds).toEqual([...reds].sort((a, b) => a - b));
+      expect(fake.state).toMatchObject({ red: 200, warmWhite: 100 });
+      expect(fake.connections).toBe(1);
+    });
+
+    it('is cancelled by the next change', async () => {
+      const control = createControl();
+
+      const fade = control.fadeTo({ ...black, blue: 255 }, 2000);
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      await control.setPower(false);
+
+      await expect(fade).resolves.toBe(true);
+      const frames = fake.commands.length;
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      expect(fake.commands.length).toBe(frames);
+      expect(fake.commands[frames - 1]).toEqual(
+        Buffer.from([0x71, 0x24, 0x0f])
+      );
+      expect(fake.state.blue).toBeLessThan(255);
+    });
+
+    it('fades out before switching off', async () => {
+      const control = createControl();
+      await control.setColorOnly(100, 0, 0);
+
+      await control.setPower(false, 200);
+
+      const powerOff = fake.commands.findIndex(
+        (command) => command[0] === 0x71
+      );
+      expect(fake.commands[powerOff - 1]).toEqual(
+        Buffer.from([0x31, 0, 0, 0, 0, 0x00, 0x0f])
+      );
+      expect(fake.commands[powerOff]).toEqual(Buffer.from([0x71, 0x24, 0x0f]));
+    });
+
+    it('stores the levels from before the fade while switched off', async () => {
+      const control = createControl();
+      await control.setColorOnly(100, 0, 0);
+
+      await control.setPower(false, 200);
+
+      expect(fake.state).toMatchObject({ on: false, red: 100 });
+      expect(control.levels).toMatchObject({ red: 100 });
+
+      await control.setPower(true, 200);
+
+      expect(fake.state).toMatchObject({ on: true, red: 100 });
+    });
+
+    it('fades the white channels with masks', async () => {
+      const control = createControl({ applyMasks: true });
+      await control.setWhitesOnly(200, 0);
+
+      fake.commands = [];
+      await control.setPower(false, 300);
+
+      const powerOff = fake.commands.findIndex(
+        (command) => command[0] === 0x71
+      );
+      const fadeOut = fake.commands.slice(0, powerOff);
+      expect(fadeOut.length).toBeGreaterThan(2);
+      expect(fadeOut.every((command) => command[5] === 0x0f)).toBe(true);
+      const whites = fadeOut.map((command) => command[4]);
+      expect(whites).toEqual([...whites].sort((a, b) => b - a));
+      expect(whites[whites.length - 1]).toBe(0);
+
+      fake.commands = [];
+      await control.setPower(true, 300);
+
+      const powerOn = fake.commands.findIndex((command) => command[0] === 0x71);
+      const fadeIn = fake.commands.slice(powerOn + 1);
+      expect(fadeIn.length).toBeGreaterThan(2);
+      expect(fadeIn.every((command) => command[5] === 0x0f)).toBe(true);
+      expect(fadeIn[0][4]).toBeLessThan(200);
+      expect(fake.state).toMatchObject({ on: true, warmWhite: 200 });
+    });
+  });
+
+  describe('timers', () => {
+    const wakeUp = {
+      weekdays: 0x3e,
+      hour: 7,
+      minute: 30,
+      action: 'on' as const,
+      color: { red: 255, green: 128, blue: 0 },
+      warm_white: 0,
+    };
+    const goodNight = {
+      weekdays: 0,
+      date: { year: 2024, month: 12, day: 24 },
+      hour: 23,
+      minute: 0,
+      action: 'off' as const,
+    };
+
+    it('writes the timers and reads them back', async () => {
+      const control = createControl();
+
+      await expect(control.setTimers([wakeUp, goodNight])).resolves.toBe(true);
+      await expect(control.getTimers()).resolves.toEqual([wakeUp, goodNight]);
+
+      expect(fake.commands[0].length).toBe(87);
+      expect(fake.commands[0].slice(1, 15)).toEqual(
+        Buffer.from([0xf0, 0, 0, 0, 7, 30, 0, 0x3e, 0x61, 255, 128, 0, 0, 0xf0])
+      );
+      expect(fake.commands[0].slice(29, 43)[0]).toBe(0x0f);
+      expect(fake.invalidCommands).toEqual([]);
+    });
+
+    it('reads the speed of pattern timers', async () => {
+      const control = createControl();
+      const party = {
+        weekdays: 0xc0,
+        hour: 20,
+        minute: 0,
+        action: 'on' as const,
+        pattern: 'seven_color_cross_fade' as const,
+        speed: 50,
+      };
+
+      await control.setTimers([party]);
+
+      await expect(control.getTimers()).resolves.toEqual([party]);
+    });
+
+    it('only writes timers that differ from the stored ones', async () => {
+      const control = createControl();
+
+      await expect(control.syncTimers([wakeUp])).resolves.toBe(true);
+      await expect(control.syncTimers([wakeUp])).resolves.toBe(false);
+
+      expect(fake.commands.map((command) => command[0])).toEqual([
+        0x22,
+        0x21,
+        0x22,
+      ]);
+    });
+
+    it('rejects more timers than the controller stores', async () => {
+      const control = createControl();
+
+      await expect(
+        control.setTimers(new Array(7).fill(goodNight))
+      ).rejects.toThrow(InvalidArgumentError);
+      expect(fake.connections).toBe(0);
+    });
+  });
+
+  describe('clock', () => {
+    it('sets the clock and reads it back', async () => {
+      const control = createControl();
+      const date = new Date(2024, 2, 10, 18, 45, 30);
+
+      await expect(control.setClock(date)).resolves.toBe(true);
+      await expect(control.getClock()).resolves.toEqual(date);
+
+      expect(fake.commands[0]).toEqual(
+        Buffer.from([0x10, 0x14, 24, 3, 10, 18, 45, 30, 7, 0x00, 0x0f])
+      );
+    });
+
+    it('reports a clock that is not set', async () => {
+      const control = createControl();
+
+      await expect(control.getClock()).resolves.toBeNull();
+    });
+  });
+
+  describe('errors', () => {
+    it('times out when the controller does not answer', async () => {
+      fake.set({ ack: false });
+      const control = createControl();
+
+      await expect(control.setPower(true)).rejects.toThrow(CommandTimeoutError);
+    });
+
+    it('resolves unacknowledged commands right away when no ack is expected', async () => {
+      fake.set({ ack: false });
+      const control = createControl({ ack: { power: false } });
+
+      await expect(control.setPower(true)).resolves.toBe(true);
+    });
+
+    it('continues with the next command after a timeout', async () => {
+      fake.set({ replyDelay: 400 });
+      const control = createControl();
+
+      const first = control.setPower(true);
+      const second = control.setPower(false);
+
+      await expect(first).rejects.toThrow(CommandTimeoutError);
+      await expect(second).resolves.toBe(true);
+      expect(fake.state.on).toBe(false);
+    });
+
+    it('rejects all queued commands when the connection is refused', async () => {
+      await fake.close();
+      const control = createControl();
+
+      const results = await Promise.all([
+        control.setPower(true).catch((err) => err),
+        control.setColor(1, 2, 3).catch((err) => err),
+      ]);
+
+      expect(results[0]).toBeInstanceOf(ConnectionRefusedError);
+      expect(results[1]).toBeInstanceOf(ConnectionRefusedError);
+      expect(results[0].code).toBe('ECONNREFUSED');
+    });
+
+    it('fails the command when the controller drops the connection', async () => {
+      fake.dropConnections();
+      const control = createControl();
+
+      await expect(control.setPower(true)).rejects.toThrow(ControlError);
+    });
+
+    it('sends queued commands to a new address', async () => {
+      fake.set({ replyDelay: 1000 });
+      const moved = new FakeController();
+      const movedPort = await moved.listen();
+      const control = createControl({ commandTimeoutLength: 2000 });
+
+      const result = control.setPower(true);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      control.setAddress('127.0.0.1', movedPort);
+
+      await expect(result).resolves.toBe(true);
+      expect(moved.state.on).toBe(true);
+
+      await moved.close();
+    });
+
+    it('reconnects a dropped persistent connection', async () => {
+      fake.dropConnections();
+      const control = createControl({ persistentConnection: true });
+
+      await expect(control.setPower(true)).resolves.toBe(true);
+      expect(fake.connections).toBe(2);
+      expect(fake.state.on).toBe(true);
+
+      control.close();
+    });
+  });
+
+  describe('persistent connection', () => {
+    const wait = (milliseconds: number) =>
+      new Promise((resolve) => setTimeout(resolve, milliseconds));
+
+    it('queries the controller while idle', async () => {
+      const control = createControl({
+        persistentConnection: true,
+        keepAliveInterval: 100,
+      });
+
+      await control.setPower(true);
+      await wait(250);
+
+      expect(fake.commands.map((command) => command[0])).toContain(0x81);
+      expect(fake.connections).toBe(1);
+      expect(fake.openConnections).toBe(1);
+
+      control.close();
+    });
+
+    it('drops a half-open connection and opens a new one', async () => {
+      const control = createControl({
+        persistentConnection: true,
+        keepAliveInterval: 100,
+        commandTimeoutLength: 100,
+      });
+
+      await control.setPower(true);
+      fake.set({ silent: true });
+      await wait(400);
+
+      expect(fake.openConnections).toBe(0);
+
+      fake.set({ silent: false });
+      await expect(control.setPower(false)).resolves.toBe(true);
+      expect(fake.connections).toBe(2);
+
+      control.close();
+    });
+
+    it('reconnects after the controller closed the idle connection', async () => {
+      const control = createControl({ persistentConnection: true });
+
+      await control.setPower(true);
+      fake.disconnect();
+      await wait(100);
+
+      await expect(control.setPower(false)).resolves.toBe(true);
+      expect(fake.connections).toBe(2);
+      expect(fake.state.on).toBe(false);
+
+      control.close();
+    });
+
+    it(`gives up after ${MAX_RECONNECT_ATTEMPTS} reconnect attempts`, async () => {
+      fake.dropConnections(MAX_RECONNECT_ATTEMPTS + 1);
+      const control = createControl({ persistentConnection: true });
+
+      await expect(control.setPower(true)).rejects.toThrow(ConnectionError);
+      expect(fake.connections).toBe(MAX_RECONNECT_ATTEMPTS + 1);
+
+      control.close();
+    });
+  });
+});
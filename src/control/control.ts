@@ -1,43 +1,101 @@
 import net from 'net';
-import { CustomMode, EffectInterface } from 'magic-home';
-import { patterns, RESPONSE_TIMEOUT } from './constants';
+import { EffectInterface } from 'magic-home';
 import {
+  controllerTypes,
+  MAX_RECONNECT_ATTEMPTS,
+  MAX_TIMERS,
+  patterns,
+  RESPONSE_TIMEOUT,
+  TIMER_LENGTH,
+  TRANSITION_FRAME_INTERVAL,
+  TRANSITION_RESPONSE_TIMEOUT,
+  wiringOrders,
+} from './constants';
+import {
+  CommandTimeoutError,
+  ConnectionError,
+  ConnectTimeoutError,
+  InvalidArgumentError,
+  ShortReplyError,
+} from './errors';
+import {
+  calibrateLevels,
+  checksum,
   clamp,
-  delayToSpeed,
-  determineMode,
-  determinePattern,
+  decodeState,
+  decodeTimers,
+  determineCapabilities,
+  encodeTimers,
+  fromChannelOrder,
+  interpolateLevels,
   speedToDelay,
+  toChannelOrder,
+  uncalibrateLevels,
 } from './helpers';
 import {
+  ColorOrderType,
+  ControlOptionsAckType,
   ControlOptionsInputType,
   ControlOptionsType,
+  CustomModeType,
+  EffectInterfaceType,
+  LevelsType,
+  PatternNameType,
   RgbColorType,
   StateType,
+  TimerType,
 } from './types';
 
+// commands of the same kind replace each other while they wait in the queue
+type SupersedesType = 'color' | 'transition';
+
+type QueuedCommandType = {
+  expectReply: boolean;
+  // the command including its checksum
+  command: Buffer;
+  supersedes?: SupersedesType;
+  // called with the reply, empty when no reply is expected
+  resolve: (data: Buffer) => void;
+  reject: (err: Error) => void;
+};
+
 export default class Control {
   private ipAddress: string;
   private port: number;
 
   private options: ControlOptionsType;
 
-  private commandQueue: any;
-  private socket: any;
+  private commandQueue: QueuedCommandType[];
+  private socket: net.Socket | null;
 
   private receivedData: Buffer;
   private receiveTimeout?: ReturnType<typeof setTimeout>;
   private connectTimeout?: ReturnType<typeof setTimeout>;
   private commandTimeout?: ReturnType<typeof setTimeout>;
+  private keepAliveTimeout?: ReturnType<typeof setTimeout>;
   private preventDataSending: boolean;
+  private connected: boolean;
+  private reconnectAttempts: number;
+  private transition?: {
+    timeout?: ReturnType<typeof setTimeout>;
+    resolve: (result: boolean) => void;
+  };
 
   private lastColor: RgbColorType;
   private lastWW: number;
   private lastCW: number;
 
+  // how the strip is wired, colors are rearranged to it when sent and back when reported
+  private colorOrder: ColorOrderType;
+
   /**
    * Create a new Control instance. This does not connect to the controller, yet.
    */
-  constructor(ipAddress, port, options?: ControlOptionsInputType) {
+  constructor(
+    ipAddress: string,
+    port: number,
+    options?: ControlOptionsInputType
+  ) {
     this.ipAddress = ipAddress;
     this.port = port;
 
@@ -47,6 +105,8 @@ export default class Control {
       commandTimeoutLength: 1000,
       connectTimeoutLength: undefined,
       coldWhiteSupport: false,
+      persistentConnection: false,
+      keepAliveInterval: 15000,
       ...options,
       ack: {
         power: true,
@@ -65,15 +125,23 @@ export default class Control {
     this.receiveTimeout = undefined;
     this.connectTimeout = undefined;
     this.commandTimeout = undefined;
+    this.keepAliveTimeout = undefined;
     this.preventDataSending = false;
+    this.connected = false;
+    this.reconnectAttempts = 0;
 
     // store the values of the last sent/received values to enable the convenience methods
     this.lastColor = { red: 0, green: 0, blue: 0 };
     this.lastWW = 0;
     this.lastCW = 0;
+
+    this.colorOrder =
+      this.options.channelOrder && this.options.channelOrder !== 'auto'
+        ? this.options.channelOrder
+        : 'RGB';
   }
 
-  static ackMask(mask) {
+  static ackMask(mask: number): ControlOptionsAckType {
     return {
       power: (mask & 0x01) > 0,
       color: (mask & 0x02) > 0,
@@ -85,7 +153,7 @@ export default class Control {
   /**
    * @private
    */
-  receiveData(empty: boolean, data?: any) {
+  receiveData(empty: boolean, data?: Buffer) {
     if (this.commandTimeout) {
       // we have received _something_ so the command cannot timeout anymore
       clearTimeout(this.commandTimeout);
@@ -107,19 +175,28 @@ export default class Control {
       // clear received data
       this.receivedData = Buffer.alloc(0);
 
+      // the connection works again
+      this.reconnectAttempts = 0;
+
       this.commandQueue.shift();
 
       this.handleNextCommand();
-    } else {
+    } else if (data !== undefined) {
       this.receivedData = Buffer.concat([this.receivedData, data]);
 
       if (this.receiveTimeout != null) clearTimeout(this.receiveTimeout);
 
       // since we don't know how long the response is going to be, set a timeout after which we consider the
       // whole message to be received
-      this.receiveTimeout = setTimeout(() => {
-        this.receiveData(true);
-      }, RESPONSE_TIMEOUT);
+      const command = this.commandQueue[0];
+      this.receiveTimeout = setTimeout(
+        () => {
+          this.receiveData(true);
+        },
+        command !== undefined && command.supersedes === 'transition'
+          ? TRANSITION_RESPONSE_TIMEOUT
+          : RESPONSE_TIMEOUT
+      );
     }
   }
 
@@ -134,7 +211,7 @@ export default class Control {
     if (timedout_command !== undefined) {
       const reject = timedout_command.reject;
       if (reject != undefined) {
-        reject(new Error('Command timed out'));
+        reject(new CommandTimeoutError());
       }
     }
 
@@ -150,9 +227,19 @@ export default class Control {
    */
   handleNextCommand() {
     if (this.commandQueue.length == 0) {
-      if (this.socket != null) this.socket.end();
-      this.socket = null;
-    } else {
+      if (this.options.persistentConnection && this.socket !== null) {
+        this.scheduleKeepAlive();
+      } else if (this.transition === undefined) {
+        if (this.socket !== null) {
+          this.socket.end();
+        }
+        this.socket = null;
+      }
+      // otherwise the socket stays open for the next frame of the transition
+    } else if (this.socket === null) {
+      // the persistent connection was dropped, reconnect with the queue preserved
+      this.connect();
+    } else if (this.connected) {
       let cmd = this.commandQueue[0];
 
       if (!cmd.expectReply) {
@@ -171,79 +258,180 @@ export default class Control {
         });
       }
     }
+    // otherwise the connect callback sends the first command
   }
 
   /**
    * @private
    */
-  sendCommand(buf: Buffer, expectReply, resolve, reject) {
-    // calculate checksum
-    let checksum = 0;
-    for (let byte of buf.values()) {
-      checksum += byte;
+  sendCommand(
+    buf: Buffer,
+    expectReply: boolean,
+    resolve: QueuedCommandType['resolve'],
+    reject: QueuedCommandType['reject'],
+    supersedes?: SupersedesType
+  ) {
+    // append checksum to command buffer
+    const command = Buffer.concat([buf, Buffer.from([checksum(buf)])]);
+
+    // every change cancels a running transition, queries, timers and the clock don't change the light
+    if (
+      supersedes !== 'transition' &&
+      ![0x81, 0x21, 0x22, 0x10, 0x11].includes(buf[0])
+    ) {
+      this.cancelTransition();
     }
-    checksum &= 0xff;
 
-    // append checksum to command buffer
-    let command = Buffer.concat([buf, Buffer.from([checksum])]);
+    const last = this.commandQueue[this.commandQueue.length - 1];
+    if (
+      supersedes !== undefined &&
+      this.commandQueue.length > 1 &&
+      last.supersedes === supersedes
+    ) {
+      // the last command has not been transmitted yet and would be overwritten right away, so send only the newer one
+      // the superseded command settles together with the newer one, and first so its side effects are overwritten
+      this.commandQueue[this.commandQueue.length - 1] = {
+        expectReply,
+        command,
+        supersedes,
+        resolve: (data: Buffer) => {
+          last.resolve(data);
+          resolve(data);
+        },
+        reject: (err: Error) => {
+          last.reject(err);
+          reject(err);
+        },
+      };
+      return;
+    }
 
-    if (this.commandQueue.length == 0 && this.socket == null) {
-      this.commandQueue.push({ expectReply, resolve, reject, command });
+    const idle = this.commandQueue.length === 0;
 
-      this.preventDataSending = false;
+    this.commandQueue.push({
+      expectReply,
+      resolve,
+      reject,
+      command,
+      supersedes,
+    });
 
-      this.socket = net.connect(this.port, this.ipAddress, () => {
-        if (this.connectTimeout != null) {
-          clearTimeout(this.connectTimeout);
-          this.connectTimeout = undefined;
-        }
+    if (this.keepAliveTimeout !== undefined) {
+      clearTimeout(this.keepAliveTimeout);
+      this.keepAliveTimeout = undefined;
+    }
 
-        if (!this.preventDataSending) {
-          // prevent "write after end" errors
-          this.handleNextCommand(); // which is the "first" command in this case
-        }
-      });
+    if (this.socket === null) {
+      this.connect();
+    } else if (idle) {
+      // only happens with an open persistent connection or during a transition
+      this.handleNextCommand();
+    }
+  }
 
-      this.socket.on('error', (err) => {
-        this.socketErrorHandler(err, reject);
-      });
+  /**
+   * Queues a command and resolves to the reply, which is empty when no reply is expected
+   * @private
+   */
+  request(
+    buf: Buffer,
+    expectReply: boolean,
+    supersedes?: SupersedesType
+  ): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      this.sendCommand(buf, expectReply, resolve, reject, supersedes);
+    });
+  }
 
-      this.socket.on('data', (data) => {
-        if (this.options.logAllReceived) {
-          console.log(
-            'Received:',
-            data.toString('hex').replace(/(\w{2})/g, '$1 ')
-          );
-        }
+  /**
+   * @private
+   */
+  connect() {
+    this.preventDataSending = false;
+    this.connected = false;
 
-        this.receiveData(false, data);
-      });
+    const socket = net.connect(this.port, this.ipAddress, () => {
+      if (this.connectTimeout !== undefined) {
+        clearTimeout(this.connectTimeout);
+        this.connectTimeout = undefined;
+      }
 
-      if (this.options.connectTimeoutLength) {
-        this.connectTimeout = setTimeout(() => {
-          this.socketErrorHandler(
-            new Error('Connection timeout reached'),
-            reject
-          );
-        }, this.options.connectTimeoutLength);
+      this.connected = true;
+
+      if (this.options.persistentConnection) {
+        // let the OS detect dead peers as well, the keepalive queries catch controllers which stopped answering
+        socket.setKeepAlive(true, this.options.keepAliveInterval);
       }
-    } else {
-      this.commandQueue.push({ expectReply, resolve, reject, command });
+
+      if (!this.preventDataSending) {
+        // prevent "write after end" errors
+        this.handleNextCommand(); // which is the "first" command in this case
+      }
+    });
+
+    socket.on('error', (err) => {
+      // ignore late errors of sockets which were already replaced
+      if (socket === this.socket) {
+        this.socketErrorHandler(ConnectionError.from(err));
+      }
+    });
+
+    socket.on('close', () => {
+      if (socket === this.socket && this.options.persistentConnection) {
+        this.socketErrorHandler(
+          new ConnectionError('Connection closed by controller')
+        );
+      }
+    });
+
+    socket.on('data', (data) => {
+      if (socket !== this.socket) {
+        return;
+      }
+
+      if (this.options.logAllReceived) {
+        console.log(
+          'Received:',
+          data.toString('hex').replace(/(\w{2})/g, '$1 ')
+        );
+      }
+
+      this.receiveData(false, data);
+    });
+
+    if (this.options.connectTimeoutLength) {
+      this.connectTimeout = setTimeout(() => {
+        this.socketErrorHandler(new ConnectTimeoutError());
+      }, this.options.connectTimeoutLength);
     }
+
+    this.socket = socket;
   }
 
   /**
    * @private
    */
-  socketErrorHandler(err, reject) {
-    this.preventDataSending = true;
+  socketErrorHandler(err: ConnectionError) {
+    if (
+      this.options.persistentConnection &&
+      this.connected &&
+      this.reconnectAttempts < MAX_RECONNECT_ATTEMPTS
+    ) {
+      // an established connection broke, reconnect and resend the command that was in flight
+      this.reconnectAttempts++;
+      this.dropSocket();
+
+      if (this.commandQueue.length > 0) {
+        this.connect();
+      }
+      return;
+    }
 
-    reject(err);
+    this.preventDataSending = true;
 
-    if (this.socket != null) this.socket.end();
-    this.socket = null;
+    this.dropSocket();
 
-    // also reject all commands currently in the queue
+    // reject all commands currently in the queue
     for (let c of this.commandQueue) {
       let reject = c.reject;
       if (reject != undefined) {
@@ -255,26 +443,193 @@ export default class Control {
   }
 
   /**
+   * Destroys the socket and clears all timers belonging to it
+   * @private
+   */
+  dropSocket() {
+    for (const timeout of [
+      this.connectTimeout,
+      this.commandTimeout,
+      this.receiveTimeout,
+      this.keepAliveTimeout,
+    ]) {
+      if (timeout !== undefined) {
+        clearTimeout(timeout);
+      }
+    }
+    this.connectTimeout = undefined;
+    this.commandTimeout = undefined;
+    this.receiveTimeout = undefined;
+    this.keepAliveTimeout = undefined;
+
+    this.receivedData = Buffer.alloc(0);
+
+    if (this.socket !== null) {
+      this.socket.destroy();
+    }
+    this.socket = null;
+    this.connected = false;
+  }
+
+  /**
+   * Queries the controller after the persistent connection has been idle for keepAliveInterval.
+   * A query that is not answered means the connection is half-open, so it gets dropped and reopened.
+   * @private
+   */
+  scheduleKeepAlive() {
+    if (this.keepAliveTimeout !== undefined) {
+      clearTimeout(this.keepAliveTimeout);
+    }
+
+    this.keepAliveTimeout = setTimeout(() => {
+      this.keepAliveTimeout = undefined;
+
+      const socket = this.socket;
+      this.sendCommand(
+        Buffer.from([0x81, 0x8a, 0x8b]),
+        true,
+        () => undefined,
+        () => {
+          if (socket === this.socket && this.socket !== null) {
+            this.dropSocket();
+          }
+        }
+      );
+    }, this.options.keepAliveInterval);
+  }
+
+  /**
+   * Closes the persistent connection and rejects all commands which have not been sent yet
+   */
+  close() {
+    this.preventDataSending = true;
+    this.cancelTransition();
+
+    const commandQueue = this.commandQueue;
+    this.commandQueue = [];
+
+    this.dropSocket();
+
+    for (const c of commandQueue) {
+      if (c.reject !== undefined) {
+        c.reject(new ConnectionError('Connection closed'));
+      }
+    }
+  }
+
+  /**
+   * Points this instance at a new address, e.g. after the controller got a new DHCP lease.
+   * The current connection is dropped and queued commands, including the one in flight, are sent to the new address.
+   */
+  setAddress(ipAddress: string, port: number) {
+    if (ipAddress === this.ipAddress && port === this.port) {
+      return;
+    }
+
+    this.ipAddress = ipAddress;
+    this.port = port;
+
+    if (this.socket !== null) {
+      this.dropSocket();
+
+      if (this.commandQueue.length > 0) {
+        this.connect();
+      }
+    }
+  }
+
+  /**
+   * Turns levels into the outputs of the controller, by the calibration and the wiring of the strip
    * @private
    */
-  sendColorChangeCommand(red, green, blue, ww, cw, mask, callback) {
+  toOutputs(levels: LevelsType): LevelsType {
+    const calibrated = this.options.calibration
+      ? calibrateLevels(levels, this.options.calibration)
+      : levels;
+    const swap = this.options.coldWhiteSupport && this.options.swapWhites;
+
+    return {
+      ...toChannelOrder(calibrated, this.colorOrder),
+      warm_white: swap ? calibrated.cold_white : calibrated.warm_white,
+      cold_white: swap ? calibrated.warm_white : calibrated.cold_white,
+    };
+  }
+
+  /**
+   * Reverses toOutputs on the outputs the controller reported
+   * @private
+   */
+  fromOutputs(outputs: LevelsType): LevelsType {
+    const swap = this.options.coldWhiteSupport && this.options.swapWhites;
+    const levels = {
+      ...fromChannelOrder(outputs, this.colorOrder),
+      warm_white: swap ? outputs.cold_white : outputs.warm_white,
+      cold_white: swap ? outputs.warm_white : outputs.cold_white,
+    };
+
+    return this.options.calibration
+      ? uncalibrateLevels(levels, this.options.calibration)
+      : levels;
+  }
+
+  /**
+   * @private
+   */
+  sendColorChangeCommand(
+    red: number,
+    green: number,
+    blue: number,
+    ww: number,
+    cw: number,
+    mask: number,
+    supersedes: SupersedesType = 'color'
+  ): Promise<boolean> {
     red = clamp(red, 0, 255);
     green = clamp(green, 0, 255);
     blue = clamp(blue, 0, 255);
     ww = clamp(ww, 0, 255);
 
-    let cmd_buf;
+    let cmd_buf: Buffer;
     if (this.options.coldWhiteSupport) {
       cw = clamp(cw, 0, 255);
-      cmd_buf = Buffer.from([0x31, red, green, blue, ww, cw, mask, 0x0f]);
+      const outputs = this.toOutputs({
+        red,
+        green,
+        blue,
+        warm_white: ww,
+        cold_white: cw,
+      });
+      cmd_buf = Buffer.from([
+        0x31,
+        outputs.red,
+        outputs.green,
+        outputs.blue,
+        outputs.warm_white,
+        outputs.cold_white,
+        mask,
+        0x0f,
+      ]);
     } else {
-      cmd_buf = Buffer.from([0x31, red, green, blue, ww, mask, 0x0f]);
+      const outputs = this.toOutputs({
+        red,
+        green,
+        blue,
+        warm_white: ww,
+        cold_white: 0,
+      });
+      cmd_buf = Buffer.from([
+        0x31,
+        outputs.red,
+        outputs.green,
+        outputs.blue,
+        outputs.warm_white,
+        mask,
+        0x0f,
+      ]);
     }
 
-    const promise = new Promise((resolve, reject) => {
-      this.sendCommand(cmd_buf, this.options.ack.color, resolve, reject);
-    })
-      .then((data: any) => {
+    return this.request(cmd_buf, this.options.ack.color, supersedes)
+      .then((data) => {
         return data.length > 0 || !this.options.ack.color;
       })
       .then((result) => {
@@ -285,52 +640,209 @@ export default class Control {
         }
         return result;
       });
-
-    if (callback && typeof callback == 'function') {
-      promise.then(callback.bind(null, null), callback);
-    }
-
-    return promise;
   }
 
   /**
    * Sets the power state either to on or off
    * @param {Boolean} on
-   * @param {function} callback called with (err, success)
+   * @param {Number} transition milliseconds to fade in or out, 0 switches instantly
    * @returns {Promise<boolean>}
    */
-  setPower(on, callback) {
+  setPower(on: boolean, transition = 0): Promise<boolean> {
+    if (transition > 0) {
+      return this.fadePower(on, transition);
+    }
+
     let cmd_buf = Buffer.from([0x71, on ? 0x23 : 0x24, 0x0f]);
 
-    const promise = new Promise((resolve, reject) => {
-      this.sendCommand(cmd_buf, this.options.ack.power, resolve, reject);
-    }).then((data: any) => {
+    return this.request(cmd_buf, this.options.ack.power).then((data) => {
       return data.length > 0 || !this.options.ack.power; // the responses vary from controller to controller and I don't know what they mean
     });
+  }
+
+  /**
+   * Fades out before switching off, or switches on at black and fades in to the levels from before
+   * @private
+   */
+  fadePower(on: boolean, transition: number): Promise<boolean> {
+    const black = { red: 0, green: 0, blue: 0, warm_white: 0, cold_white: 0 };
+    const levels = this.levels;
+
+    if (on) {
+      return this.sendColorChangeCommand(0, 0, 0, 0, 0, this.maskFor(levels))
+        .then(() => this.setPower(true))
+        .then(() => this.fadeTo(levels, transition));
+    }
+
+    return this.fadeTo(black, transition)
+      .then(() => this.setPower(false))
+      .then((result) => {
+        const faded = this.levels;
+        if (
+          faded.red +
+            faded.green +
+            faded.blue +
+            faded.warm_white +
+            faded.cold_white >
+          0
+        ) {
+          return result; // the fade was cancelled by another change, which is kept
+        }
+
+        // the controller would keep the faded out levels, so anything that switches it on later, e.g. the IR remote,
+        // would show black. The levels from before are stored while the light is off, which is invisible.
+        return this.sendColorChangeCommand(
+          levels.red,
+          levels.green,
+          levels.blue,
+          levels.warm_white,
+          levels.cold_white,
+          this.maskFor(levels)
+        ).then(() => result);
+      });
+  }
+
+  /**
+   * The channel values the controller was last set to or reported
+   */
+  get levels(): LevelsType {
+    return {
+      ...this.lastColor,
+      warm_white: this.lastWW,
+      cold_white: this.lastCW,
+    };
+  }
+
+  /**
+   * Fades from the current channel values to the given ones by streaming intermediate frames to the controller.
+   * Any other change cancels the transition, which then resolves right away.
+   * Controllers which need masks jump when switching between the color and the white channels,
+   * since they can only set one of them at a time.
+   * @param {LevelsType} levels
+   * @param {Number} duration in milliseconds
+   * @returns {Promise<boolean>}
+   */
+  fadeTo(levels: LevelsType, duration: number): Promise<boolean> {
+    this.cancelTransition();
+
+    const from = this.levels;
+    const mask = this.maskFor(levels, from);
+    if (this.options.applyMasks && this.maskFor(from, levels) !== mask) {
+      duration = 0;
+    }
+
+    return new Promise<boolean>((resolve, reject) => {
+      const transition: NonNullable<Control['transition']> = { resolve };
+      const start = Date.now();
+      this.transition = transition;
+
+      const sendFrame = () => {
+        transition.timeout = undefined;
+
+        const progress =
+          duration > 0 ? Math.min((Date.now() - start) / duration, 1) : 1;
+        const frame =
+          progress < 1 ? interpolateLevels(from, levels, progress) : levels;
+
+        this.sendColorChangeCommand(
+          frame.red,
+          frame.green,
+          frame.blue,
+          frame.warm_white,
+          frame.cold_white,
+          mask,
+          'transition'
+        )
+          .then((result) => {
+            if (this.transition !== transition) {
+              return; // cancelled and already resolved
+            }
+
+            if (progress < 1) {
+              transition.timeout = setTimeout(
+                sendFrame,
+                TRANSITION_FRAME_INTERVAL
+              );
+              return;
+            }
+
+            this.endTransition();
+            resolve(result);
+          })
+          .catch((err: Error) => {
+            if (this.transition === transition) {
+              this.endTransition();
+              reject(err);
+            }
+          });
+      };
+
+      sendFrame();
+    });
+  }
+
+  /**
+   * The mask which sets only the lit channels, white levels set the white channels and all others the color ones.
+   * Black takes the mask of the levels it is faded from or to, so that fading a white light in or out dims the whites.
+   * @private
+   */
+  maskFor(levels: LevelsType, other?: LevelsType): number {
+    if (!this.options.applyMasks) {
+      return 0;
+    }
 
-    if (callback && typeof callback == 'function') {
-      promise.then(callback.bind(null, null), callback);
+    const color = levels.red > 0 || levels.green > 0 || levels.blue > 0;
+    const white = levels.warm_white > 0 || levels.cold_white > 0;
+    if (!color && !white && other) {
+      return this.maskFor(other);
     }
 
-    return promise;
+    return !color && white ? 0x0f : 0xf0;
+  }
+
+  /**
+   * Stops the running transition at its current frame
+   * @private
+   */
+  cancelTransition() {
+    const transition = this.transition;
+    if (transition === undefined) {
+      return;
+    }
+
+    if (transition.timeout !== undefined) {
+      clearTimeout(transition.timeout);
+    }
+    this.transition = undefined;
+    transition.resolve(true);
+  }
+
+  /**
+   * @private
+   */
+  endTransition() {
+    this.transition = undefined;
+
+    // close the socket that was kept open between the frames
+    if (this.commandQueue.length === 0 && this.socket !== null) {
+      this.handleNextCommand();
+    }
   }
 
   /**
    * Convenience method to call setPower(true)
-   * @param {function} callback
    * @returns {Promise<boolean>}
    */
-  turnOn(callback) {
-    return this.setPower(true, callback);
+  turnOn(): Promise<boolean> {
+    return this.setPower(true);
   }
 
   /**
    * Convenience method to call setPower(false)
-   * @param {function} callback
    * @returns {Promise<boolean>}
    */
-  turnOff(callback) {
-    return this.setPower(false, callback);
+  turnOff(): Promise<boolean> {
+    return this.setPower(false);
   }
 
   /**
@@ -340,25 +852,21 @@ export default class Control {
    * @param {Number} green
    * @param {Number} blue
    * @param {Number} ww
-   * @param {function} callback called with (err, success)
    * @returns {Promise<boolean>}
    */
-  setColorAndWarmWhite(red, green, blue, ww, callback) {
+  setColorAndWarmWhite(
+    red: number,
+    green: number,
+    blue: number,
+    ww: number
+  ): Promise<boolean> {
     if (this.options.applyMasks) {
       console.warn(
         'WARNING: Masks are enabled, but a method which does not use them was called.'
       );
     }
 
-    return this.sendColorChangeCommand(
-      red,
-      green,
-      blue,
-      ww,
-      this.lastCW,
-      0,
-      callback
-    );
+    return this.sendColorChangeCommand(red, green, blue, ww, this.lastCW, 0);
   }
 
   /**
@@ -369,17 +877,22 @@ export default class Control {
    * @param {Number} blue
    * @param {Number} ww warm white
    * @param {Number} cw cold white
-   * @param {function} callback called with (err, success)
    * @returns {Promise<boolean>}
    */
-  setColorAndWhites(red, green, blue, ww, cw, callback) {
+  setColorAndWhites(
+    red: number,
+    green: number,
+    blue: number,
+    ww: number,
+    cw: number
+  ): Promise<boolean> {
     if (this.options.applyMasks) {
       console.warn(
         'WARNING: Masks are enabled, but a method which does not use them was called.'
       );
     }
 
-    return this.sendColorChangeCommand(red, green, blue, ww, cw, 0, callback);
+    return this.sendColorChangeCommand(red, green, blue, ww, cw, 0);
   }
 
   /**
@@ -388,29 +901,13 @@ export default class Control {
    * @param {Number} red
    * @param {Number} green
    * @param {Number} blue
-   * @param {function} callback called with (err, success)
    * @returns {Promise<boolean>}
    */
-  setColor(red, green, blue, callback) {
+  setColor(red: number, green: number, blue: number): Promise<boolean> {
     if (this.options.applyMasks) {
-      return this.sendColorChangeCommand(
-        red,
-        green,
-        blue,
-        0,
-        0,
-        0xf0,
-        callback
-      );
+      return this.sendColorChangeCommand(red, green, blue, 0, 0, 0xf0);
     } else {
-      return this.setColorAndWhites(
-        red,
-        green,
-        blue,
-        this.lastWW,
-        this.lastCW,
-        callback
-      );
+      return this.setColorAndWhites(red, green, blue, this.lastWW, this.lastCW);
     }
   }
 
@@ -418,27 +915,17 @@ export default class Control {
    * Sets the warm white values of the controller.
    * Depending on applyMasks, only the warm white values, or warm white values as well as previous color values will be sent
    * @param {Number} ww
-   * @param {function} callback called with (err, success)
    * @returns {Promise<boolean>}
    */
-  setWarmWhite(ww, callback) {
+  setWarmWhite(ww: number): Promise<boolean> {
     if (this.options.applyMasks) {
-      return this.sendColorChangeCommand(
-        0,
-        0,
-        0,
-        ww,
-        this.lastCW,
-        0x0f,
-        callback
-      );
+      return this.sendColorChangeCommand(0, 0, 0, ww, this.lastCW, 0x0f);
     } else {
       return this.setColorAndWarmWhite(
         this.lastColor.red,
         this.lastColor.green,
         this.lastColor.blue,
-        ww,
-        callback
+        ww
       );
     }
   }
@@ -448,10 +935,9 @@ export default class Control {
    * Depending on applyMasks, only the cold white values, or cold white values as well as previous color values will be sent
    * @param {Number} ww warm white
    * @param {Number} cw cold white
-   * @param {function} callback called with (err, success)
    * @returns {Promise<boolean>}
    */
-  setWhites(ww, cw, callback) {
+  setWhites(ww: number, cw: number): Promise<boolean> {
     if (cw != 0 && !this.options.coldWhiteSupport) {
       console.warn(
         'WARNING: Cold white support is not enabled, but the cold white value was set to a non-zero value.'
@@ -459,19 +945,63 @@ export default class Control {
     }
 
     if (this.options.applyMasks) {
-      return this.sendColorChangeCommand(0, 0, 0, ww, cw, 0x0f, callback);
+      return this.sendColorChangeCommand(0, 0, 0, ww, cw, 0x0f);
     } else {
       return this.setColorAndWhites(
         this.lastColor.red,
         this.lastColor.green,
         this.lastColor.blue,
         ww,
-        cw,
-        callback
+        cw
       );
     }
   }
 
+  /**
+   * Sets the color values of the controller and turns the white channels off.
+   * Depending on applyMasks, the white channels are either masked out or explicitly sent as 0
+   * @param {Number} red
+   * @param {Number} green
+   * @param {Number} blue
+   * @returns {Promise<boolean>}
+   */
+  setColorOnly(red: number, green: number, blue: number): Promise<boolean> {
+    return this.sendColorChangeCommand(
+      red,
+      green,
+      blue,
+      0,
+      0,
+      this.options.applyMasks ? 0xf0 : 0
+    );
+  }
+
+  /**
+   * Sets the white values of the controller and turns the color channels off.
+   * Depending on applyMasks, the color channels are either masked out or explicitly sent as 0
+   * @param {Number} ww warm white
+   * @param {Number} cw cold white
+   * @returns {Promise<boolean>}
+   */
+  setWhitesOnly(ww: number, cw: number): Promise<boolean> {
+    return this.sendColorChangeCommand(
+      0,
+      0,
+      0,
+      ww,
+      cw,
+      this.options.applyMasks ? 0x0f : 0
+    );
+  }
+
+  /**
+   * Whether color change packets include the cold white channel.
+   * This is enabled by the coldWhiteSupport option or by a queryState reply of a controller with a cold white channel.
+   */
+  get coldWhiteSupport() {
+    return this.options.coldWhiteSupport === true;
+  }
+
   /**
    * Convenience method to scale down the colors with a brightness value between 0 and 100
    * If you send red, green and blue to 0, this sets the color to white with the specified brightness (but not warm white!)
@@ -479,10 +1009,14 @@ export default class Control {
    * @param {Number} green
    * @param {Number} blue
    * @param {Number} brightness
-   * @param {function} callback
    * @returns {Promise<boolean>}
    */
-  setColorWithBrightness(red, green, blue, brightness, callback) {
+  setColorWithBrightness(
+    red: number,
+    green: number,
+    blue: number,
+    brightness: number
+  ): Promise<boolean> {
     brightness = clamp(brightness, 0, 100);
 
     let r = (255 / 100) * brightness;
@@ -495,61 +1029,41 @@ export default class Control {
       b = Math.round((clamp(blue, 0, 255) / 100) * brightness);
     }
 
-    return this.setColor(r, g, b, callback);
+    return this.setColor(r, g, b);
   }
 
   /**
-   * Sets the controller to display one of the predefined patterns
+   * Sets the controller to display one of the predefined patterns.
+   * Rejects with an InvalidArgumentError for unknown patterns.
    * @param {String} pattern Name of the pattern
    * @param {Number} speed between 0 and 100
-   * @param {function} callback
    * @returns {Promise<boolean>}
    */
-  setPattern(pattern, speed, callback) {
-    const patternCode = patterns[pattern];
+  setPattern(pattern: PatternNameType, speed: number): Promise<boolean> {
+    const patternCode: number | undefined = patterns[pattern];
     if (patternCode == undefined) {
-      const promise = Promise.reject(new Error('Invalid pattern'));
-
-      if (callback && typeof callback == 'function') {
-        promise.then(callback.bind(null, null), callback);
-      }
-
-      return promise;
+      return Promise.reject(new InvalidArgumentError('Invalid pattern'));
     }
 
     const delay = speedToDelay(speed);
 
     const cmdBuf = Buffer.from([0x61, patternCode, delay, 0x0f]);
 
-    const promise = new Promise((resolve, reject) => {
-      this.sendCommand(cmdBuf, this.options.ack.pattern, resolve, reject);
-    }).then((data: any) => {
+    return this.request(cmdBuf, this.options.ack.pattern).then((data) => {
       return data.length > 0 || !this.options.ack.pattern;
     });
-
-    if (callback && typeof callback == 'function') {
-      promise.then(callback.bind(null, null), callback);
-    }
-
-    return promise;
   }
 
   /**
-   * Sets the controller to display one of the predefined patterns
+   * Sets the controller to display one of the predefined patterns.
+   * Rejects with an InvalidArgumentError for codes out of range.
    * @param {Number} code Code of the pattern, between 1 and 300
    * @param {Number} speed between 0 and 100
-   * @param {function} callback
    * @returns {Promise<boolean>}
    */
-  setIAPattern(code, speed, callback) {
+  setIAPattern(code: number, speed: number): Promise<boolean> {
     if (code < 1 || code > 300) {
-      const promise = Promise.reject(new Error('Invalid code'));
-
-      if (callback && typeof callback === 'function') {
-        promise.then(callback.bind(null, null), callback);
-      }
-
-      return promise;
+      return Promise.reject(new InvalidArgumentError('Invalid code'));
     }
 
     code += 99;
@@ -562,35 +1076,26 @@ export default class Control {
 
     const cmdBuf = Buffer.from(bufferArray);
 
-    const promise = new Promise((resolve, reject) => {
-      this.sendCommand(cmdBuf, this.options.ack.pattern, resolve, reject);
-    }).then((data: any) => {
+    return this.request(cmdBuf, this.options.ack.pattern).then((data) => {
       return data.length > 0 || !this.options.ack.pattern;
     });
-
-    if (callback && typeof callback == 'function') {
-      promise.then(callback.bind(null, null), callback);
-    }
-
-    return promise;
   }
 
   /**
-   * Sets the controller to display a custom pattern
-   * @param {CustomMode} pattern
+   * Sets the controller to display a custom pattern.
+   * Rejects with an InvalidArgumentError for patterns without colors or with an unknown transition type.
+   * @param {CustomModeType} pattern
    * @param {Number} speed
-   * @param {function} callback
    * @returns {Promise<boolean>}
    */
-  setCustomPattern(pattern, speed, callback) {
-    if (!(pattern instanceof CustomMode)) {
-      const promise = Promise.reject(new Error('Invalid pattern'));
-
-      if (callback && typeof callback == 'function') {
-        promise.then(callback.bind(null, null), callback);
-      }
-
-      return promise;
+  setCustomPattern(pattern: CustomModeType, speed: number): Promise<boolean> {
+    const transitionCodes = { fade: 0x3a, jump: 0x3b, strobe: 0x3c };
+    if (
+      !Array.isArray(pattern.colors) ||
+      pattern.colors.length === 0 ||
+      transitionCodes[pattern.transitionType] === undefined
+    ) {
+      return Promise.reject(new InvalidArgumentError('Invalid pattern'));
     }
 
     let delay = speedToDelay(speed);
@@ -600,113 +1105,93 @@ export default class Control {
 
     for (let i = 0; i < 16; i++) {
       if (pattern.colors[i]) {
-        cmdBufValues.push(
-          pattern.colors[i].red,
-          pattern.colors[i].green,
-          pattern.colors[i].blue,
-          0
-        );
+        const outputs = this.toOutputs({
+          ...pattern.colors[i],
+          warm_white: 0,
+          cold_white: 0,
+        });
+        cmdBufValues.push(outputs.red, outputs.green, outputs.blue, 0);
       } else {
         cmdBufValues.push(1, 2, 3, 0);
       }
     }
 
     cmdBufValues.push(delay);
-
-    switch (pattern.transitionType) {
-      case 'fade':
-        cmdBufValues.push(0x3a);
-        break;
-      case 'jump':
-        cmdBufValues.push(0x3b);
-        break;
-      case 'strobe':
-        cmdBufValues.push(0x3c);
-        break;
-    }
-
+    cmdBufValues.push(transitionCodes[pattern.transitionType]);
     cmdBufValues.push(0xff, 0x0f);
 
     const cmd_buf = Buffer.from(cmdBufValues);
 
-    const promise = new Promise((resolve, reject) => {
-      this.sendCommand(
-        cmd_buf,
-        this.options.ack.customPattern,
-        resolve,
-        reject
-      );
-    }).then((data: any) => {
-      return data.length > 0 || !this.options.ack.customPattern;
-    });
-
-    if (callback && typeof callback == 'function') {
-      promise.then(callback.bind(null, null), callback);
-    }
-
-    return promise;
+    return this.request(cmd_buf, this.options.ack.customPattern).then(
+      (data) => {
+        return data.length > 0 || !this.options.ack.customPattern;
+      }
+    );
   }
 
   /**
    * Creates a new EffectInterface, which establishes a persistent connection to the controller
-   * @param {function} callback
-   * @returns {Promise<EffectInterface>}
+   * @returns {Promise<EffectInterfaceType>}
    */
-  startEffectMode(callback) {
-    const promise = new Promise((resolve, reject) => {
+  startEffectMode(): Promise<EffectInterfaceType> {
+    return new Promise((resolve, reject) => {
       new EffectInterface(
         this.ipAddress,
         this.port,
-        this.options,
-        (err, effect_interface) => {
-          if (err) return reject(err);
+        {
+          wait_for_reply: this.options.ack.color,
+          apply_masks: this.options.applyMasks,
+          cold_white_support: this.options.coldWhiteSupport,
+        },
+        (err: Error | null, effect_interface: EffectInterfaceType) => {
+          if (err) {
+            return reject(ConnectionError.from(err));
+          }
 
           resolve(effect_interface);
         }
       );
     });
-
-    if (callback && typeof callback == 'function') {
-      promise.then(callback.bind(null, null), callback);
-    }
-
-    return promise;
   }
 
   /**
    * Queries the controller for it's current state
    * This method stores the color and ww values for future calls to setColor, setWarmWhite, etc.
-   * It will also set applyMasks to true for controllers which require it.
-   * @param {function} callback
-   * @returns {Promise<QueryResponse>}
+   * It will also set applyMasks and coldWhiteSupport to true for controllers which require it.
+   * The levels are corrected back by the channelOrder, swapWhites and calibration options.
+   * Truncated, malformed and corrupted replies are rejected with a ReplyError.
+   * @returns {Promise<StateType>}
    */
-  queryState(callback) {
+  queryState(): Promise<StateType> {
     let cmd_buf = Buffer.from([0x81, 0x8a, 0x8b]);
 
-    const promise = new Promise((resolve, reject) => {
-      this.sendCommand(cmd_buf, true, resolve, reject);
-    }).then((data: any) => {
-      if (data.length < 14) throw new Error('Only got short reply');
-
-      const mode = determineMode(data);
-
-      let state: StateType = {
-        type: data.readUInt8(1),
-        on: data.readUInt8(2) == 0x23,
-        mode: mode,
-        pattern: determinePattern(data),
-        speed:
-          mode !== 'ia_pattern'
-            ? delayToSpeed(data.readUInt8(5))
-            : data.readUInt8(5),
-        color: {
-          red: data.readUInt8(6),
-          green: data.readUInt8(7),
-          blue: data.readUInt8(8),
-        },
-        warm_white: data.readUInt8(9),
-        cold_white: data.readUInt8(11),
-      };
+    return this.request(cmd_buf, true).then((data) => {
+      const state = decodeState(data);
+
+      // for unknown controllers do not change any options
+      if (controllerTypes[state.type] !== undefined) {
+        const capabilities = determineCapabilities(state.type);
+        if (capabilities.applyMasks) {
+          this.options.applyMasks = true;
+        }
+        if (capabilities.coldWhite) {
+          this.options.coldWhiteSupport = true;
+        }
+      }
+
+      if (
+        this.options.channelOrder === 'auto' &&
+        wiringOrders[state.wiring] !== undefined
+      ) {
+        this.colorOrder = wiringOrders[state.wiring];
+      }
+
+      const { warm_white, cold_white, ...color } = this.fromOutputs({
+        ...state.color,
+        warm_white: state.warm_white,
+        cold_white: state.cold_white,
+      });
+      Object.assign(state, { color, warm_white, cold_white });
 
       this.lastColor = {
         red: state.color.red,
@@ -716,27 +1201,144 @@ export default class Control {
       this.lastWW = state.warm_white;
       this.lastCW = state.cold_white;
 
-      switch (state.type) {
-        case 0x25:
-          this.options.applyMasks = true;
-          break;
-        case 0x35:
-          this.options.applyMasks = true;
-          this.options.coldWhiteSupport = true;
-          break;
-        case 0x44:
-          this.options.applyMasks = true;
-          break;
-        // otherwise do not change any options
+      return state;
+    });
+  }
+
+  /**
+   * Reads the timers stored on the controller, empty slots are left out
+   * @returns {Promise<TimerType[]>}
+   */
+  getTimers(): Promise<TimerType[]> {
+    const cmdBuf = Buffer.from([0x22, 0x2a, 0x2b, 0x0f]);
+
+    return this.request(cmdBuf, true).then((data) => {
+      // 0x0f 0x22, followed by the timer slots
+      const expected = 2 + MAX_TIMERS * TIMER_LENGTH;
+      if (data.length < expected) {
+        throw new ShortReplyError(data.length, expected);
       }
 
-      return state;
+      return decodeTimers(data.slice(2)).map((timer) => {
+        if (!timer.color) {
+          return timer;
+        }
+
+        const { warm_white, cold_white, ...color } = this.fromOutputs({
+          ...timer.color,
+          warm_white: timer.warm_white ?? 0,
+          cold_white: 0,
+        });
+        return { ...timer, color, warm_white };
+      });
     });
+  }
 
-    if (callback && typeof callback == 'function') {
-      promise.then(callback.bind(null, null), callback);
+  /**
+   * Replaces the timers stored on the controller, the remaining slots are cleared.
+   * Rejects with an InvalidArgumentError for more timers than the controller stores.
+   * @param {TimerType[]} timers at most 6
+   * @returns {Promise<boolean>}
+   */
+  setTimers(timers: TimerType[]): Promise<boolean> {
+    if (timers.length > MAX_TIMERS) {
+      return Promise.reject(
+        new InvalidArgumentError(
+          `Too many timers, controllers store at most ${MAX_TIMERS}`
+        )
+      );
     }
 
-    return promise;
+    const cmdBuf = Buffer.concat([
+      Buffer.from([0x21]),
+      encodeTimers(
+        timers.map((timer) => {
+          if (!timer.color) {
+            return timer;
+          }
+
+          const { warm_white, cold_white, ...color } = this.toOutputs({
+            ...timer.color,
+            warm_white: timer.warm_white ?? 0,
+            cold_white: 0,
+          });
+          return { ...timer, color, warm_white };
+        })
+      ),
+      Buffer.from([0x00, 0xf0]),
+    ]);
+
+    return this.request(cmdBuf, true).then((data) => {
+      return data.length > 0;
+    });
+  }
+
+  /**
+   * Convenience method to write timers only if the controller does not store them already
+   * @param {TimerType[]} timers at most 6
+   * @returns {Promise<boolean>} whether the timers were written
+   */
+  syncTimers(timers: TimerType[]): Promise<boolean> {
+    return this.getTimers().then((current) =>
+      encodeTimers(current).equals(encodeTimers(timers))
+        ? false
+        : this.setTimers(timers).then(() => true)
+    );
+  }
+
+  /**
+   * Reads the clock of the controller, which runs its timers in local time
+   * @returns {Promise<Date | null>} null when the clock is not set, e.g. after a power loss
+   */
+  getClock(): Promise<Date | null> {
+    const cmdBuf = Buffer.from([0x11, 0x1a, 0x1b, 0x0f]);
+
+    return this.request(cmdBuf, true).then((data) => {
+      // 0x0f 0x11 0x14, year, month, day, hour, minute, second, weekday
+      if (data.length < 9) {
+        throw new ShortReplyError(data.length, 9);
+      }
+
+      const [year, month, day, hour, minute, second] = data.slice(3, 9);
+      const clock = new Date(2000 + year, month - 1, day, hour, minute, second);
+
+      // out of range values roll over into the next month, day or hour
+      if (
+        clock.getMonth() !== month - 1 ||
+        clock.getDate() !== day ||
+        clock.getHours() !== hour ||
+        clock.getMinutes() !== minute ||
+        clock.getSeconds() !== second
+      ) {
+        return null;
+      }
+
+      return clock;
+    });
+  }
+
+  /**
+   * Sets the clock of the controller to a local time
+   * @param {Date} date (Default: now)
+   * @returns {Promise<boolean>}
+   */
+  setClock(date = new Date()): Promise<boolean> {
+    const cmdBuf = Buffer.from([
+      0x10,
+      0x14,
+      date.getFullYear() - 2000,
+      date.getMonth() + 1,
+      date.getDate(),
+      date.getHours(),
+      date.getMinutes(),
+      date.getSeconds(),
+      date.getDay() || 7, // 1 is monday, 7 sunday
+      0x00,
+      0x0f,
+    ]);
+
+    return this.request(cmdBuf, true).then((data) => {
+      return data.length > 0;
+    });
   }
 }
@@ -0,0 +1,96 @@
+import Control from './control';
+import ControlGroup from './controlGroup';
+import { CommandTimeoutError } from './errors';
+import FakeController from '../testing/fakeController';
+
+describe('ControlGroup', () => {
+  let fakes: FakeController[];
+  let ports: number[];
+  let failures: string[];
+  let successes: string[];
+
+  const createGroup = (policy: 'leader' | 'majority' = 'leader') =>
+    new ControlGroup(
+      fakes.map((fake, index) => ({
+        id: `member${index}`,
+        name: `Member ${index}`,
+        control: new Control('127.0.0.1', ports[index], {
+          ack: {},
+          commandTimeoutLength: 300,
+        }),
+      })),
+      policy,
+      (member) => failures.push(member.id),
+      (member) => successes.push(member.id)
+    );
+
+  beforeEach(async () => {
+    fakes = [new FakeController(), new FakeController(), new FakeController()];
+    ports = [];
+    for (const fake of fakes) {
+      ports.push(await fake.listen());
+    }
+    failures = [];
+    successes = [];
+  });
+
+  afterEach(async () => {
+    for (const fake of fakes) {
+      await fake.close();
+    }
+  });
+
+  it('sends commands to all members', async () => {
+    const group = createGroup();
+
+    await expect(group.setPower(true)).resolves.toBe(true);
+    await expect(group.setColorOnly(10, 20, 30)).resolves.toBe(true);
+
+    for (const fake of fakes) {
+      expect(fake.state).toMatchObject({ on: true, red: 10, blue: 30 });
+    }
+    expect(failures).toEqual([]);
+  });
+
+  it('reports failed members and succeeds with the others', async () => {
+    await fakes[1].close();
+    const group = createGroup();
+
+    await expect(group.setPower(true)).resolves.toBe(true);
+
+    expect(failures).toEqual(['member1']);
+    expect(successes.sort()).toEqual(['member0', 'member2']);
+    expect(fakes[0].state.on).toBe(true);
+    expect(fakes[2].state.on).toBe(true);
+  });
+
+  it('fails when all members failed', async () => {
+    for (const fake of fakes) {
+      fake.set({ ack: false });
+    }
+    const group = createGroup();
+
+    await expect(group.setPower(true)).rejects.toThrow(CommandTimeoutError);
+    expect(failures).toEqual(['member0', 'member1', 'member2']);
+  });
+
+  it('shows the state of the leader', async () => {
+    fakes[1].state.on = true;
+    fakes[2].state.on = true;
+    const group = createGroup('leader');
+
+    await expect(group.queryState()).resolves.toMatchObject({
+      on: false,
+    });
+  });
+
+  it('shows the state most members agree on', async () => {
+    fakes[1].state.on = true;
+    fakes[2].state.on = true;
+    const group = createGroup('majority');
+
+    await expect(group.queryState()).resolves.toMatchObject({
+      on: true,
+    });
+  });
+});
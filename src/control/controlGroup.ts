@@ -0,0 +1,194 @@
+import Control from './control';
+import { reconcileStates } from './helpers';
+import {
+  CustomModeType,
+  GroupPolicyType,
+  LevelsType,
+  PatternNameType,
+  StateType,
+  TimerType,
+} from './types';
+
+export type GroupMemberType = {
+  id: string;
+  name: string;
+  control: Control;
+};
+
+type OutcomeType<T> =
+  | { succeeded: true; result: T }
+  | { succeeded: false; error: Error };
+
+/**
+ * Control Group
+ * Controls several controllers as one light. Every command is sent to all members in parallel and succeeds as long as
+ * one member acknowledged it, the members that failed are passed to onMemberFailure and the others to onMemberSuccess,
+ * so that the caller can tell when a member goes offline or comes back. It only fails with the error of
+ * the leader when all members failed. The state of the group is reconciled from the replies of its members by the
+ * group policy.
+ */
+export default class ControlGroup {
+  constructor(
+    private readonly members: GroupMemberType[],
+    private readonly policy: GroupPolicyType,
+    private readonly onMemberFailure: (
+      member: GroupMemberType,
+      err: Error
+    ) => void,
+    private readonly onMemberSuccess: (member: GroupMemberType) => void = () =>
+      undefined
+  ) {}
+
+  /**
+   * Runs a command on every member and resolves to the results of the members that succeeded, in member order
+   * @private
+   */
+  fanOut<T>(command: (control: Control) => Promise<T>): Promise<T[]> {
+    return Promise.all(
+      this.members.map((member) =>
+        command(member.control).then(
+          (result): OutcomeType<T> => {
+            this.onMemberSuccess(member);
+            return { succeeded: true, result };
+          },
+          (error: Error): OutcomeType<T> => {
+            this.onMemberFailure(member, error);
+            return { succeeded: false, error };
+          }
+        )
+      )
+    ).then((outcomes) => {
+      const results: T[] = [];
+      for (const outcome of outcomes) {
+        if (outcome.succeeded) {
+          results.push(outcome.result);
+        }
+      }
+
+      if (results.length === 0 && !outcomes[0].succeeded) {
+        throw outcomes[0].error;
+      }
+
+      return results;
+    });
+  }
+
+  /**
+   * Resolves to true once at least one member acknowledged the command
+   * @private
+   */
+  send(command: (control: Control) => Promise<boolean>): Promise<boolean> {
+    return this.fanOut(command).then(() => true);
+  }
+
+  /**
+   * Moves a member to a new address found by rediscovery
+   */
+  setMemberAddress(id: string, ipAddress: string, port: number) {
+    const member = this.members.find((member) => member.id === id);
+    member?.control.setAddress(ipAddress, port);
+  }
+
+  close() {
+    this.members.forEach((member) => member.control.close());
+  }
+
+  setPower(on: boolean, transition = 0): Promise<boolean> {
+    return this.send((control) => control.setPower(on, transition));
+  }
+
+  /**
+   * The channel values of the leader
+   */
+  get levels(): LevelsType {
+    return this.members[0].control.levels;
+  }
+
+  fadeTo(levels: LevelsType, duration: number): Promise<boolean> {
+    return this.send((control) => control.fadeTo(levels, duration));
+  }
+
+  setColorOnly(red: number, green: number, blue: number): Promise<boolean> {
+    return this.send((control) => control.setColorOnly(red, green, blue));
+  }
+
+  setWhitesOnly(ww: number, cw: number): Promise<boolean> {
+    return this.send((control) => control.setWhitesOnly(ww, cw));
+  }
+
+  /**
+   * Whether any member has a cold white channel, the others ignore the cold white value
+   */
+  get coldWhiteSupport() {
+    return this.members.some((member) => member.control.coldWhiteSupport);
+  }
+
+  setPattern(pattern: PatternNameType, speed: number): Promise<boolean> {
+    return this.send((control) => control.setPattern(pattern, speed));
+  }
+
+  setIAPattern(code: number, speed: number): Promise<boolean> {
+    return this.send((control) => control.setIAPattern(code, speed));
+  }
+
+  setCustomPattern(pattern: CustomModeType, speed: number): Promise<boolean> {
+    return this.send((control) => control.setCustomPattern(pattern, speed));
+  }
+
+  /**
+   * Queries all members and reconciles their states by the group policy, members that did not answer are left out
+   * @returns {Promise<StateType>}
+   */
+  queryState(): Promise<StateType> {
+    return this.fanOut((control) => control.queryState()).then((states) =>
+      reconcileStates(states, this.policy)
+    );
+  }
+
+  /**
+   * Reads the timers of the first member that answered
+   */
+  getTimers(): Promise<TimerType[]> {
+    return this.fanOut((control) => control.getTimers()).then(
+      (timers) => timers[0]
+    );
+  }
+
+  setTimers(timers: TimerType[]): Promise<boolean> {
+    return this.send((control) => control.setTimers(timers));
+  }
+
+  /**
+   * Writes the timers to every member that does not store them already
+   * @returns {Promise<boolean>} whether the timers were written to any member
+   */
+  syncTimers(timers: TimerType[]): Promise<boolean> {
+    return this.fanOut((control) =>
+      control.syncTimers(timers)
+    ).then((written) => written.includes(true));
+  }
+
+  /**
+   * Reads the clock that is off the furthest among the members that answered, null when one is not set
+   */
+  getClock(): Promise<Date | null> {
+    return this.fanOut((control) => control.getClock()).then((clocks) => {
+      let furthest: Date | null = clocks[0];
+      for (const clock of clocks) {
+        if (
+          clock === null ||
+          (furthest !== null &&
+            Math.abs(clock.getTime() - Date.now()) >
+              Math.abs(furthest.getTime() - Date.now()))
+        ) {
+          furthest = clock;
+        }
+      }
+      return furthest;
+    });
+  }
+
+  setClock(date = new Date()): Promise<boolean> {
+    return this.send((control) => control.setClock(date));
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * Base class of the errors Control rejects with, callers tell the failures apart by their subclass
+ */
+export class ControlError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * The controller could not be reached, or the connection to it broke
+ */
+export class ConnectionError extends ControlError {
+  constructor(
+    message: string,
+    // the code of the socket error, e.g. EHOSTUNREACH
+    public readonly code?: string
+  ) {
+    super(message);
+  }
+
+  /**
+   * Wraps an error of the socket
+   */
+  static from(err: NodeJS.ErrnoException): ConnectionError {
+    return err.code === 'ECONNREFUSED'
+      ? new ConnectionRefusedError(err.message)
+      : new ConnectionError(err.message, err.code);
+  }
+}
+
+/**
+ * The connection was not established within connectTimeoutLength
+ */
+export class ConnectTimeoutError extends ConnectionError {
+  constructor() {
+    super('Connection timeout reached');
+  }
+}
+
+/**
+ * The controller refused the connection, e.g. because another app holds its only connection
+ */
+export class ConnectionRefusedError extends ConnectionError {
+  constructor(message: string) {
+    super(message, 'ECONNREFUSED');
+  }
+}
+
+/**
+ * The controller did not answer a command within commandTimeoutLength
+ */
+export class CommandTimeoutError extends ControlError {
+  constructor() {
+    super('Command timed out');
+  }
+}
+
+/**
+ * A command was called with a value the controller does not support, nothing was sent
+ */
+export class InvalidArgumentError extends ControlError {}
+
+/**
+ * Base class of the errors for replies which arrived, but could not be decoded
+ */
+export class ReplyError extends ControlError {}
+
+/**
+ * The reply ended before all of its fields were received, e.g. because the connection was closed early
+ */
+export class ShortReplyError extends ReplyError {
+  constructor(
+    public readonly received: number,
+    public readonly expected: number
+  ) {
+    super(`Only got short reply (${received} of ${expected} bytes)`);
+  }
+}
+
+/**
+ * The checksum byte of the reply does not match its content
+ */
+export class ChecksumError extends ReplyError {
+  constructor(
+    public readonly received: number,
+    public readonly expected: number
+  ) {
+    super(
+      `Reply checksum mismatch (got 0x${received.toString(
+        16
+      )}, expected 0x${expected.toString(16)})`
+    );
+  }
+}
+
+/**
+ * The reply is not the one the command asks for, or a field holds an impossible value
+ */
+export class MalformedReplyError extends ReplyError {}
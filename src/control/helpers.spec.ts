@@ -0,0 +1,213 @@
+import {
+  calibrateLevel,
+  checksum,
+  decodeState,
+  fromChannelOrder,
+  interpolateLevels,
+  reconcileStates,
+  toChannelOrder,
+  uncalibrateLevel,
+} from './helpers';
+import { channelOrders } from './constants';
+import { ChecksumError, MalformedReplyError, ShortReplyError } from './errors';
+import { CalibrationType, ColorOrderType, StateType } from './types';
+
+describe('interpolateLevels', () => {
+  const black = { red: 0, green: 0, blue: 0, warm_white: 0, cold_white: 0 };
+
+  it('returns the ends at 0 and 1', () => {
+    const from = { ...black, red: 255, warm_white: 10 };
+    const to = { ...black, green: 128, cold_white: 200 };
+
+    expect(interpolateLevels(from, to, 0)).toEqual(from);
+    expect(interpolateLevels(from, to, 1)).toEqual(to);
+  });
+
+  it('keeps the brightness while crossing the hue circle', () => {
+    const frame = interpolateLevels(
+      { ...black, red: 255 },
+      { ...black, blue: 255 },
+      0.5
+    );
+
+    expect(frame).toMatchObject({ red: 255, green: 0, blue: 255 });
+  });
+
+  it('keeps the hue when fading in from black', () => {
+    const frame = interpolateLevels(black, { ...black, red: 200 }, 0.5);
+
+    expect(frame).toMatchObject({ red: 100, green: 0, blue: 0 });
+  });
+
+  it('fades the white channels linearly', () => {
+    const frame = interpolateLevels(
+      { ...black, warm_white: 100 },
+      { ...black, cold_white: 50 },
+      0.5
+    );
+
+    expect(frame).toMatchObject({ warm_white: 50, cold_white: 25 });
+  });
+});
+
+describe('calibrateLevel', () => {
+  const calibration: CalibrationType = {
+    gamma: 2,
+    min: 10,
+    max: { red: 255, green: 255, blue: 200, warm_white: 255, cold_white: 255 },
+  };
+
+  it('follows the gamma curve between the minimum and the maximum', () => {
+    expect(calibrateLevel(128, 'red', calibration)).toBe(72);
+    expect(calibrateLevel(255, 'red', calibration)).toBe(255);
+    expect(calibrateLevel(255, 'blue', calibration)).toBe(200);
+  });
+
+  it('keeps 0 off and raises low levels to the minimum', () => {
+    expect(calibrateLevel(0, 'red', calibration)).toBe(0);
+    expect(calibrateLevel(1, 'red', calibration)).toBe(10);
+  });
+
+  it('is reversed by uncalibrateLevel', () => {
+    for (const level of [50, 128, 200, 255]) {
+      const output = calibrateLevel(level, 'blue', calibration);
+      expect(
+        Math.abs(uncalibrateLevel(output, 'blue', calibration) - level)
+      ).toBeLessThanOrEqual(2);
+    }
+    expect(uncalibrateLevel(0, 'blue', calibration)).toBe(0);
+    expect(uncalibrateLevel(10, 'blue', calibration)).toBe(1);
+  });
+});
+
+describe('toChannelOrder', () => {
+  const color = { red: 1, green: 2, blue: 3 };
+
+  it('sends each channel to the output it is wired to', () => {
+    expect(toChannelOrder(color, 'GRB')).toEqual({ red: 2, green: 1, blue: 3 });
+    expect(toChannelOrder(color, 'BRG')).toEqual({ red: 3, green: 1, blue: 2 });
+  });
+
+  it('is reversed by fromChannelOrder', () => {
+    for (const order of Object.keys(channelOrders) as ColorOrderType[]) {
+      expect(fromChannelOrder(toChannelOrder(color, order), order)).toEqual(
+        color
+      );
+    }
+  });
+});
+
+describe('reconcileStates', () => {
+  const off: StateType = {
+    type: 0x33,
+    on: false,
+    mode: 'color',
+    color: { red: 0, green: 0, blue: 0 },
+    warm_white: 0,
+    cold_white: 0,
+    firmware: 5,
+    wiring: 0xf0,
+  };
+  const on = { ...off, on: true };
+
+  it('follows the leader', () => {
+    expect(reconcileStates([off, on, on], 'leader')).toBe(off);
+  });
+
+  it('follows the majority, ignoring the controller type and firmware', () => {
+    expect(
+      reconcileStates(
+        [off, on, { ...on, type: 0x44, firmware: 9, wiring: 0x12 }],
+        'majority'
+      )
+    ).toBe(on);
+  });
+
+  it('breaks ties in favor of the earlier member', () => {
+    expect(reconcileStates([on, off, off, on], 'majority')).toBe(on);
+  });
+});
+
+describe('decodeState', () => {
+  const reply = (bytes: number[]) => {
+    const buf = Buffer.from(bytes);
+    return Buffer.concat([buf, Buffer.from([checksum(buf)])]);
+  };
+  // 0x81, type, power, mode (2 bytes), delay, red, green, blue, warm white, firmware, cold white, wiring
+  const color = [0x81, 0x35, 0x23, 0x61, 0x21, 0x10, 1, 2, 3, 4, 9, 5, 0x12];
+
+  it('decodes every field', () => {
+    expect(decodeState(reply(color))).toEqual({
+      type: 0x35,
+      on: true,
+      mode: 'color',
+      color: { red: 1, green: 2, blue: 3 },
+      warm_white: 4,
+      cold_white: 5,
+      firmware: 9,
+      wiring: 0x12,
+    });
+  });
+
+  it('reports static whites as white', () => {
+    const state = decodeState(
+      reply([0x81, 0x35, 0x24, 0x61, 0x21, 0x10, 0, 0, 0, 0, 9, 80, 0x12])
+    );
+
+    expect(state).toMatchObject({ on: false, mode: 'white', cold_white: 80 });
+  });
+
+  it('decodes the running pattern', () => {
+    const bytes = [...color];
+    bytes.splice(3, 3, 0x38, 0x21, 0x10);
+
+    expect(decodeState(reply(bytes))).toMatchObject({
+      mode: 'pattern',
+      pattern: 'seven_color_jumping',
+      speed: 50,
+    });
+  });
+
+  it('decodes IA patterns by code', () => {
+    const bytes = [...color];
+    bytes.splice(3, 3, 0x00, 0x64 + 41, 80);
+
+    expect(decodeState(reply(bytes))).toMatchObject({
+      mode: 'ia_pattern',
+      pattern: 42,
+      speed: 80,
+    });
+  });
+
+  it('decodes custom and other modes', () => {
+    const custom = [...color];
+    custom[3] = 0x60;
+    const music = [...color];
+    music[3] = 0x62;
+
+    expect(decodeState(reply(custom))).toMatchObject({ mode: 'custom' });
+    expect(decodeState(reply(music))).toMatchObject({
+      mode: 'special',
+      code: 0x62,
+    });
+  });
+
+  it('rejects truncated replies', () => {
+    expect(() => decodeState(reply(color).slice(0, 10))).toThrow(
+      ShortReplyError
+    );
+  });
+
+  it('rejects replies to other commands', () => {
+    expect(() => decodeState(reply([0x0f, ...color.slice(1)]))).toThrow(
+      MalformedReplyError
+    );
+  });
+
+  it('rejects replies with a wrong checksum', () => {
+    const corrupted = reply(color);
+    corrupted[7] ^= 0xff;
+
+    expect(() => decodeState(corrupted)).toThrow(ChecksumError);
+  });
+});
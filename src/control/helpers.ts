@@ -1,39 +1,61 @@
-import { patterns } from './constants';
-import { PatternNameType } from './types';
-
-export const determineMode = (resp) => {
-  if (
-    resp.readUInt8(3) === 0x61 ||
-    (resp.readUInt8(3) === 0 && resp.readUInt8(4) === 0x61)
-  ) {
-    return 'color';
-  } else if (resp.readUInt8(3) === 0x62) {
-    return 'special';
-  } else if (resp.readUInt8(3) === 0x60) {
-    return 'custom';
-  } else if (resp.readUInt8(3) >= 0x25 && resp.readUInt8(3) <= 0x38) {
-    // we can ignore bit 4 here, since it is always 0x21 and resp.readUInt16BE(3) is >= 9505
-    return 'pattern';
-  } else if (resp.readUInt16BE(3) >= 0x64 && resp.readUInt16BE(3) <= 0x018f) {
-    return 'ia_pattern';
-  } else {
-    return null;
-  }
-};
+import convert from 'color-convert';
+import {
+  channelOrders,
+  controllerTypes,
+  lightTypes,
+  MAX_MIREDS,
+  MAX_TIMERS,
+  MIN_MIREDS,
+  patternNames,
+  patterns,
+  STATE_RESPONSE_LENGTH,
+  TIMER_LENGTH,
+} from './constants';
+import { ChecksumError, MalformedReplyError, ShortReplyError } from './errors';
+import {
+  CalibrationType,
+  CapabilitiesType,
+  ColorOrderType,
+  GroupPolicyType,
+  LevelsType,
+  LightTypeNameType,
+  MiredsType,
+  PatternNameType,
+  RgbColorType,
+  StateModeType,
+  StateType,
+  TimerType,
+  WhitesType,
+} from './types';
 
-export const determinePattern = (resp): PatternNameType | number | null => {
-  if (resp.readUInt8(3) >= 0x25 && resp.readUInt8(3) <= 0x38) {
-    for (let patternName in patterns) {
-      if (patterns[patternName] === resp.readUInt8(3))
-        return patternName as PatternNameType;
-    }
+/**
+ * Sum of all bytes, as appended to commands and replies
+ */
+export const checksum = (buf: Buffer) => {
+  let sum = 0;
+  for (const byte of buf.values()) {
+    sum += byte;
   }
+  return sum & 0xff;
+};
 
-  if (resp.readUInt16BE(3) >= 0x64 && resp.readUInt16BE(3) <= 0x018f) {
-    return resp.readUInt16BE(3) - 99;
-  }
+/**
+ * Looks up the capabilities of a controller by the type byte of its query response.
+ * Unknown controllers get the capabilities of the fallback light type.
+ */
+export const determineCapabilities = (
+  type: number | null,
+  fallback: LightTypeNameType = 'rgb'
+): CapabilitiesType => {
+  const controllerType = type !== null ? controllerTypes[type] : undefined;
+  const lightType = controllerType ? controllerType.lightType : fallback;
 
-  return null;
+  return {
+    type,
+    lightType,
+    applyMasks: controllerType ? controllerType.applyMasks : false,
+    ...lightTypes[lightType],
+  };
 };
 
 export const delayToSpeed = (delay) => {
@@ -50,3 +72,385 @@ export const speedToDelay = (speed) => {
 export const clamp = (value, min, max) => {
   return Math.min(max, Math.max(min, value));
 };
+
+/**
+ * Maps a color temperature in mireds and a brightness between 0 and 100 onto warm and cold white channel values.
+ * Controllers without a cold white channel get the full level on the warm white channel.
+ */
+export const miredsToWhites = (
+  mireds: number,
+  brightness: number,
+  coldWhiteSupport: boolean
+): WhitesType => {
+  const level = (clamp(brightness, 0, 100) / 100) * 255;
+
+  if (!coldWhiteSupport) {
+    return { warm_white: Math.round(level), cold_white: 0 };
+  }
+
+  const warmRatio =
+    (clamp(mireds, MIN_MIREDS, MAX_MIREDS) - MIN_MIREDS) /
+    (MAX_MIREDS - MIN_MIREDS);
+
+  return {
+    warm_white: Math.round(level * warmRatio),
+    cold_white: Math.round(level * (1 - warmRatio)),
+  };
+};
+
+/**
+ * Inverse of miredsToWhites, returns the color temperature in mireds and the brightness between 0 and 100
+ */
+export const whitesToMireds = (
+  warmWhite: number,
+  coldWhite: number
+): MiredsType => {
+  const level = clamp(warmWhite + coldWhite, 0, 255);
+
+  if (level === 0) {
+    return { mireds: MAX_MIREDS, brightness: 0 };
+  }
+
+  return {
+    mireds: Math.round(
+      MIN_MIREDS +
+        (warmWhite / (warmWhite + coldWhite)) * (MAX_MIREDS - MIN_MIREDS)
+    ),
+    brightness: Math.round((level / 255) * 100),
+  };
+};
+
+/**
+ * Returns the channel values at `progress` (between 0 and 1) of a transition.
+ * Colors are interpolated in HSV along the shorter way around the hue circle, so a fade from red to blue passes
+ * through magenta at full brightness instead of a dim grey. The white channels are interpolated linearly.
+ */
+export const interpolateLevels = (
+  from: LevelsType,
+  to: LevelsType,
+  progress: number
+): LevelsType => {
+  const p = clamp(progress, 0, 1);
+  const fromHsv = convert.rgb.hsv.raw(from.red, from.green, from.blue);
+  const toHsv = convert.rgb.hsv.raw(to.red, to.green, to.blue);
+
+  // black and greys have no hue, so a fade from or to them keeps the hue and saturation of the other end
+  if (fromHsv[2] === 0) {
+    fromHsv[0] = toHsv[0];
+    fromHsv[1] = toHsv[1];
+  } else if (fromHsv[1] === 0) {
+    fromHsv[0] = toHsv[0];
+  }
+  if (toHsv[2] === 0) {
+    toHsv[0] = fromHsv[0];
+    toHsv[1] = fromHsv[1];
+  } else if (toHsv[1] === 0) {
+    toHsv[0] = fromHsv[0];
+  }
+
+  let hueDistance = toHsv[0] - fromHsv[0];
+  if (hueDistance > 180) {
+    hueDistance -= 360;
+  } else if (hueDistance < -180) {
+    hueDistance += 360;
+  }
+
+  const rgb = convert.hsv.rgb(
+    (fromHsv[0] + hueDistance * p + 360) % 360,
+    fromHsv[1] + (toHsv[1] - fromHsv[1]) * p,
+    fromHsv[2] + (toHsv[2] - fromHsv[2]) * p
+  );
+  const linear = (a: number, b: number) => Math.round(a + (b - a) * p);
+
+  return {
+    red: rgb[0],
+    green: rgb[1],
+    blue: rgb[2],
+    warm_white: linear(from.warm_white, to.warm_white),
+    cold_white: linear(from.cold_white, to.cold_white),
+  };
+};
+
+/**
+ * Picks the state of a group from the states its members reported, ordered by member so the leader comes first.
+ * The controller type, firmware and wiring are left out when comparing states, ties go to the state of the earlier member.
+ */
+export const reconcileStates = (
+  states: StateType[],
+  policy: GroupPolicyType
+): StateType => {
+  if (policy === 'leader') {
+    return states[0];
+  }
+
+  const key = ({ type, firmware, wiring, ...state }: StateType) =>
+    JSON.stringify(state);
+  const counts = new Map<string, number>();
+  for (const state of states) {
+    counts.set(key(state), (counts.get(key(state)) ?? 0) + 1);
+  }
+
+  const most = Math.max(...counts.values());
+  return states.find((state) => counts.get(key(state)) === most)!;
+};
+
+/**
+ * Corrects a level by the calibration of the strip: along the gamma curve, into the range between the minimum
+ * visible level and the maximum of the channel. 0 stays off.
+ */
+export const calibrateLevel = (
+  level: number,
+  channel: keyof LevelsType,
+  calibration: CalibrationType
+) => {
+  if (level <= 0) {
+    return 0;
+  }
+
+  const { gamma, min, max } = calibration;
+  const corrected = Math.pow(clamp(level, 0, 255) / 255, gamma);
+  return Math.round(min + corrected * (max[channel] - min));
+};
+
+/**
+ * Reverses calibrateLevel on an output level, any output above 0 stays on
+ */
+export const uncalibrateLevel = (
+  output: number,
+  channel: keyof LevelsType,
+  calibration: CalibrationType
+) => {
+  if (output <= 0) {
+    return 0;
+  }
+
+  const { gamma, min, max } = calibration;
+  const corrected = clamp((output - min) / (max[channel] - min), 0, 1);
+  return Math.max(1, Math.round(Math.pow(corrected, 1 / gamma) * 255));
+};
+
+export const calibrateLevels = (
+  levels: LevelsType,
+  calibration: CalibrationType
+): LevelsType => ({
+  red: calibrateLevel(levels.red, 'red', calibration),
+  green: calibrateLevel(levels.green, 'green', calibration),
+  blue: calibrateLevel(levels.blue, 'blue', calibration),
+  warm_white: calibrateLevel(levels.warm_white, 'warm_white', calibration),
+  cold_white: calibrateLevel(levels.cold_white, 'cold_white', calibration),
+});
+
+export const uncalibrateLevels = (
+  outputs: LevelsType,
+  calibration: CalibrationType
+): LevelsType => ({
+  red: uncalibrateLevel(outputs.red, 'red', calibration),
+  green: uncalibrateLevel(outputs.green, 'green', calibration),
+  blue: uncalibrateLevel(outputs.blue, 'blue', calibration),
+  warm_white: uncalibrateLevel(outputs.warm_white, 'warm_white', calibration),
+  cold_white: uncalibrateLevel(outputs.cold_white, 'cold_white', calibration),
+});
+
+/**
+ * Rearranges a color into the outputs of a controller whose strip is wired in the given order
+ */
+export const toChannelOrder = (
+  color: RgbColorType,
+  order: ColorOrderType
+): RgbColorType => {
+  const [red, green, blue] = channelOrders[order].map(
+    (channel) => color[channel]
+  );
+  return { red, green, blue };
+};
+
+/**
+ * Reverses toChannelOrder on the outputs a controller reported
+ */
+export const fromChannelOrder = (
+  outputs: RgbColorType,
+  order: ColorOrderType
+): RgbColorType => {
+  const values = [outputs.red, outputs.green, outputs.blue];
+  const color = { red: 0, green: 0, blue: 0 };
+  channelOrders[order].forEach((channel, index) => {
+    color[channel] = values[index];
+  });
+  return color;
+};
+
+/**
+ * Determines the mode from bytes 3 to 5 of a query response, static colors with only the whites lit are white
+ */
+const decodeMode = (data: Buffer): StateModeType => {
+  const code = data[3];
+  const iaCode = data.readUInt16BE(3);
+
+  if (code === 0x61 || (code === 0 && data[4] === 0x61)) {
+    const white =
+      data[6] === 0 &&
+      data[7] === 0 &&
+      data[8] === 0 &&
+      (data[9] > 0 || data[11] > 0);
+    return { mode: white ? 'white' : 'color' };
+  }
+
+  if (code === 0x60) {
+    return { mode: 'custom', speed: delayToSpeed(data[5]) };
+  }
+
+  const pattern = patternNames.find((name) => patterns[name] === code) as
+    | PatternNameType
+    | undefined;
+  if (pattern) {
+    return { mode: 'pattern', pattern, speed: delayToSpeed(data[5]) };
+  }
+
+  // IA patterns send their code in bytes 3 and 4, and the speed instead of a delay
+  if (iaCode >= 0x64 && iaCode <= 0x018f) {
+    return { mode: 'ia_pattern', pattern: iaCode - 99, speed: data[5] };
+  }
+
+  return { mode: 'special', code };
+};
+
+/**
+ * Decodes the reply to a state query:
+ * 0x81, type, power, mode (2 bytes), delay/speed, red, green, blue, warm white, firmware, cold white, wiring, checksum
+ */
+export const decodeState = (data: Buffer): StateType => {
+  if (data.length < STATE_RESPONSE_LENGTH) {
+    throw new ShortReplyError(data.length, STATE_RESPONSE_LENGTH);
+  }
+
+  if (data[0] !== 0x81) {
+    throw new MalformedReplyError(
+      `Unexpected reply to a state query (starts with 0x${data[0].toString(
+        16
+      )})`
+    );
+  }
+
+  const expected = checksum(data.slice(0, STATE_RESPONSE_LENGTH - 1));
+  if (data[STATE_RESPONSE_LENGTH - 1] !== expected) {
+    throw new ChecksumError(data[STATE_RESPONSE_LENGTH - 1], expected);
+  }
+
+  return {
+    type: data[1],
+    on: data[2] === 0x23,
+    ...decodeMode(data),
+    color: {
+      red: data[6],
+      green: data[7],
+      blue: data[8],
+    },
+    warm_white: data[9],
+    firmware: data[10],
+    cold_white: data[11],
+    wiring: data[12],
+  };
+};
+
+/**
+ * Builds the slot of an on-device timer, an empty slot is marked inactive.
+ * A timer that switches the light on without a color or pattern restores the last state of the light.
+ */
+export const encodeTimer = (timer?: TimerType): Buffer => {
+  const slot = Buffer.alloc(TIMER_LENGTH);
+  if (!timer) {
+    slot[0] = 0x0f;
+    return slot;
+  }
+
+  slot[0] = 0xf0;
+  if (timer.weekdays === 0 && timer.date) {
+    slot[1] = timer.date.year - 2000;
+    slot[2] = timer.date.month;
+    slot[3] = timer.date.day;
+  }
+  slot[4] = timer.hour;
+  slot[5] = timer.minute;
+  slot[7] = timer.weekdays;
+
+  if (timer.action === 'off') {
+    slot[13] = 0x0f;
+    return slot;
+  }
+
+  slot[13] = 0xf0;
+  if (timer.pattern) {
+    slot[8] = patterns[timer.pattern];
+    slot[9] = Math.round(speedToDelay(timer.speed ?? 50));
+  } else if (timer.color || timer.warm_white !== undefined) {
+    slot[8] = 0x61;
+    slot[9] = timer.color?.red ?? 0;
+    slot[10] = timer.color?.green ?? 0;
+    slot[11] = timer.color?.blue ?? 0;
+    slot[12] = timer.warm_white ?? 0;
+  }
+
+  return slot;
+};
+
+/**
+ * Builds the slots of all timers of a controller, padded with empty slots
+ */
+export const encodeTimers = (timers: TimerType[]): Buffer => {
+  const slots: Buffer[] = [];
+  for (let i = 0; i < MAX_TIMERS; i++) {
+    slots.push(encodeTimer(timers[i]));
+  }
+  return Buffer.concat(slots);
+};
+
+/**
+ * Reads the slot of an on-device timer, null for an empty slot
+ */
+export const decodeTimer = (slot: Buffer): TimerType | null => {
+  if (slot[0] !== 0xf0) {
+    return null;
+  }
+
+  const timer: TimerType = {
+    weekdays: slot[7],
+    hour: slot[4],
+    minute: slot[5],
+    action: slot[13] === 0xf0 ? 'on' : 'off',
+  };
+  if (timer.weekdays === 0) {
+    timer.date = { year: slot[1] + 2000, month: slot[2], day: slot[3] };
+  }
+
+  if (timer.action === 'on') {
+    const pattern = Object.keys(patterns).find(
+      (name) => patterns[name] === slot[8]
+    );
+
+    if (slot[8] === 0x61) {
+      timer.color = { red: slot[9], green: slot[10], blue: slot[11] };
+      timer.warm_white = slot[12];
+    } else if (pattern) {
+      timer.pattern = pattern as PatternNameType;
+      timer.speed = delayToSpeed(slot[9]);
+    }
+  }
+
+  return timer;
+};
+
+/**
+ * Reads the timer slots of a controller, leaving out the empty ones
+ */
+export const decodeTimers = (slots: Buffer): TimerType[] => {
+  const timers: TimerType[] = [];
+  for (let i = 0; i < MAX_TIMERS; i++) {
+    const timer = decodeTimer(
+      slots.slice(i * TIMER_LENGTH, (i + 1) * TIMER_LENGTH)
+    );
+    if (timer) {
+      timers.push(timer);
+    }
+  }
+  return timers;
+};
@@ -1,4 +1,4 @@
-import { patterns } from './constants';
+import { channelOrders, patterns, weekdays } from './constants';
 
 export type RgbColorType = {
   red: number;
@@ -6,17 +6,85 @@ export type RgbColorType = {
   blue: number;
 };
 
+// all channel values of a color change command
+export type LevelsType = {
+  red: number;
+  green: number;
+  blue: number;
+  warm_white: number;
+  cold_white: number;
+};
+
+// the white channel values of a color temperature
+export type WhitesType = Pick<LevelsType, 'warm_white' | 'cold_white'>;
+
+// a color temperature in mireds and a brightness between 0 and 100
+export type MiredsType = {
+  mireds: number;
+  brightness: number;
+};
+
 export type PatternNameType = keyof typeof patterns;
 
-export type StateType = {
-  cold_white: number;
-  color: RgbColorType;
-  mode: string | null;
-  on: boolean;
-  pattern: PatternNameType | number | null;
-  speed: number;
+// corrects the levels sent to a strip for how its LEDs look, the levels the controller reports are corrected back
+export type CalibrationType = {
+  // exponent of the curve from levels to output levels, above 1 dims the low levels (Default: 1)
+  gamma: number;
+  // lowest output level at which the LEDs still light up, any level above 0 is sent at least at it (Default: 0)
+  min: number;
+  // output level of each channel at its full level, e.g. lower blue to warm up white (Default: 255)
+  max: LevelsType;
+};
+
+// how the color channels of a strip are wired to the outputs of the controller, e.g. GRB for most cheap strips
+export type ColorOrderType = keyof typeof channelOrders;
+
+// what the controller is running, by the mode bytes of the query response
+// color: a static color, white: a static color with only the white channels lit,
+// pattern: a built-in pattern, ia_pattern: an IA pattern by code, custom: a custom pattern,
+// special: any other mode, e.g. music or a program of the IR remote, by its mode byte
+export type StateModeType =
+  | { mode: 'color' }
+  | { mode: 'white' }
+  | { mode: 'pattern'; pattern: PatternNameType; speed: number }
+  | { mode: 'ia_pattern'; pattern: number; speed: number }
+  | { mode: 'custom'; speed: number }
+  | { mode: 'special'; code: number };
+
+export type StateType = StateModeType & {
+  // type byte of the controller, see controllerTypes
   type: number;
+  on: boolean;
+  color: RgbColorType;
   warm_white: number;
+  cold_white: number;
+  // firmware version of the controller
+  firmware: number;
+  // order in which the LED strip is wired to the output channels, as reported by the controller
+  wiring: number;
+};
+
+// how the state of a group is reconciled when its members disagree
+// leader: follow the first member that answered, majority: follow the state most members report
+export type GroupPolicyType = 'leader' | 'majority';
+
+export type WeekdayType = keyof typeof weekdays;
+
+// a schedule stored on the controller, which runs even while nothing is connected to it
+export type TimerType = {
+  // bit mask of `weekdays`, 0 runs the timer once on `date`
+  weekdays: number;
+  // the day of a timer that runs once
+  date?: { year: number; month: number; day: number };
+  hour: number;
+  minute: number;
+  // 'on' switches the light on, showing the color and warm white or the pattern if given
+  action: 'on' | 'off';
+  color?: RgbColorType;
+  warm_white?: number;
+  pattern?: PatternNameType;
+  // between 0 and 100
+  speed?: number;
 };
 
 export type ControlOptionsAckType = {
@@ -31,7 +99,7 @@ export type ControlOptionsAckType = {
 };
 
 export type ControlOptionsInputType = {
-  ack: ControlOptionsAckType;
+  ack?: ControlOptionsAckType;
   // Set the mask bit in setColor and setWarmWhite (Default: false)
   applyMasks?: boolean;
   // Send a different version of the color change packets, which also set the cold white values (Default: false)
@@ -42,13 +110,64 @@ export type ControlOptionsInputType = {
   connectTimeoutLength?: number;
   // Print all received bytes into stdout for debug purposes (Default: false)
   logAllReceived?: boolean;
+  // Keep a single connection open instead of connecting for every batch of commands (Default: false)
+  persistentConnection?: boolean;
+  // Duration in milliseconds of inactivity after which the persistent connection is checked with a query (Default: 15000)
+  keepAliveInterval?: number;
+  // Order of the color channels of the strip, auto takes it from the wiring the controller reports (Default: RGB)
+  channelOrder?: ColorOrderType | 'auto';
+  // The strip has its warm and cold white channels swapped (Default: false)
+  swapWhites?: boolean;
+  // Corrects the levels for the LEDs of the strip (Default: no correction)
+  calibration?: CalibrationType;
 };
 
 export type ControlOptionsType = {
-  ack: ControlOptionsAckType;
+  ack: Required<ControlOptionsAckType>;
   applyMasks?: boolean;
   coldWhiteSupport?: boolean;
   commandTimeoutLength: number;
   connectTimeoutLength?: number;
   logAllReceived?: boolean;
+  persistentConnection?: boolean;
+  keepAliveInterval: number;
+  channelOrder?: ColorOrderType | 'auto';
+  swapWhites?: boolean;
+  calibration?: CalibrationType;
+};
+
+// a custom pattern as built by the CustomMode of magic-home, cycling through up to 16 colors
+export type CustomModeType = {
+  colors: RgbColorType[];
+  transitionType: 'fade' | 'jump' | 'strobe';
+};
+
+// the EffectInterface of magic-home, which streams colors over its own connection
+export type EffectInterfaceType = {
+  readonly connected: boolean;
+  // calls the function every time the controller is ready for the next color
+  start(interval: (this: EffectInterfaceType) => void): void;
+  stop(): void;
+  delay(milliseconds: number): void;
+  setColor(red: number, green: number, blue: number): void;
+};
+
+// dimmer: single channel driven through warm white, rgbw: RGB + warm white,
+// rgbww: RGB + warm and cold white controller, rgbcw: RGB + cold and warm white bulb
+export type LightTypeNameType = 'dimmer' | 'rgb' | 'rgbw' | 'rgbww' | 'rgbcw';
+
+export type ControllerTypeType = {
+  lightType: LightTypeNameType;
+  // Controller expects masks to switch between color and white channels
+  applyMasks: boolean;
+};
+
+export type CapabilitiesType = {
+  // type byte reported by the controller, null if it could not be detected
+  type: number | null;
+  lightType: LightTypeNameType;
+  applyMasks: boolean;
+  color: boolean;
+  warmWhite: boolean;
+  coldWhite: boolean;
 };
@@ -9,25 +9,156 @@ import {
 } from 'homebridge';
 import { Discovery } from 'magic-home';
 import ColorLightPlatformAccessory from './accessories/colorLightPlatformAccessory';
-import { PLATFORM_NAME, PLUGIN_NAME } from './settings';
+import PresetSwitches from './accessories/presetSwitches';
+import {
+  DEFAULT_CLOCK_CHECK_INTERVAL,
+  DEFAULT_REDISCOVERY_INTERVAL,
+  DEFAULT_REMOVE_MISSING_AFTER,
+  MIN_REDISCOVERY_DELAY,
+  PLATFORM_NAME,
+  PLUGIN_NAME,
+} from './settings';
+import {
+  CustomPatternConfigType,
+  DeviceConfigType,
+  DiscoveredDeviceType,
+  GroupConfigType,
+  PresetConfigType,
+} from './config/types';
+import {
+  validateCustomPatterns,
+  validateDevices,
+  validateGroups,
+  validatePresets,
+} from './config/validation';
+import {
+  fromDiscovery,
+  mergeDevices,
+  normalizeDeviceId,
+  resolveGroups,
+} from './config/devices';
 
 /**
  * #### Platform Config Type ####
  * - platform: string;
  * - name: string;
  * - debug?: boolean;
- * - discover: boolean;
+ * - discover: boolean; scan the network for controllers, `devices` then override and complement the discovered ones
  * - devices: Config Device Type [];
+ * - ignore?: string[]; MAC or IP addresses of discovered controllers to leave out
+ * - rediscoveryInterval?: number; seconds between scans that follow controllers to new addresses, 0 disables them
+ *   (Default: 600)
+ * - groups?: Config Group Type [];
+ * - customPatterns?: Config Custom Pattern Type [];
+ * - presets?: Config Preset Type [];
+ * - pollingInterval?: number; seconds between background state queries, 0 disables polling (Default: 30)
+ * - pollingJitter?: number; maximum random seconds added to each polling interval (Default: 5)
+ * - removeMissingAfter?: number; hours a device may be missing from the config or discovery before its
+ *   accessory is removed, 0 removes it right away (Default: 168)
+ * - clockCheckInterval?: number; hours between checks of the controller clocks, which run the on-device timers,
+ *   0 disables them (Default: 24)
+ * - maxClockDrift?: number; seconds a controller clock may be off before it is set again (Default: 60)
  */
 
 /**
  * #### Config Device Type ####
- * - id: string;
+ * - id: string; MAC address of the controller, it identifies the accessory across IP address changes
+ * - displayName: string;
+ * - ipAddress: string; optional for discovered devices, which always use the discovered address
+ * - port: number; (Default: 5577)
+ * - lightType?: 'dimmer' | 'rgb' | 'rgbw' | 'rgbww' | 'rgbcw'; overrides the detected controller type
+ * - channelOrder?: 'auto' | 'RGB' | 'GRB' | 'BRG' | 'RBG' | 'GBR' | 'BGR'; how the color channels of the strip are
+ *   wired, auto takes it from controllers that report it (Default: 'RGB')
+ * - swapWhites?: boolean; the strip has its warm and cold white channels swapped (Default: false)
+ * - calibration?: Config Calibration Type; corrects the levels for the LEDs of the strip, HomeKit keeps showing the
+ *   levels that were picked
+ * - pollingInterval?: number; overrides the platform pollingInterval
+ * - pollingJitter?: number; overrides the platform pollingJitter
+ * - persistentConnection?: boolean; keep one connection open to the controller (Default: false)
+ * - effects?: boolean; publish the built-in patterns as a Television service with a speed fan
+ * - transitionDuration?: number; milliseconds to fade between colors, brightness levels and on/off (Default: 0)
+ * - adaptiveLighting?: boolean; let color lights follow HomeKit Adaptive Lighting, RGB strips approximate the
+ *   color temperature (Default: true)
+ * - autoOff?: number; minutes after which the light is switched off whenever it was switched on, manual changes
+ *   start them over (Default: 0, disabled)
+ * - sleepTimer?: boolean; publish a timer as a Valve service, which switches the light off once its duration ran out
+ * - timerFadeDuration?: number; seconds to fade down before a timer switches the light off (Default: 0)
+ * - timers?: Config Timer Type []; up to 6 schedules written to the controller on startup, which runs them even
+ *   while Homebridge is down, an empty list clears the controller's timers (Default: the timers are left alone)
+ * - powerOn?: Config Power-On Type; what the light shows when it is switched on from HomeKit
+ *   (Default: the state last set from HomeKit)
+ */
+
+/**
+ * #### Config Group Type ####
+ * Controls several devices as one light, the members are not published on their own
+ * - id: string; any unique string, presets refer to the group by it
  * - displayName: string;
- * - ipAddress: string;
- * - port: number;
+ * - members: string[]; IDs of the member devices, the first one leads the group
+ * - policy?: 'leader' | 'majority'; which state to show when the members disagree, the one of the leader or
+ *   the one most members report (Default: 'leader')
+ * - lightType, pollingInterval, pollingJitter, persistentConnection, effects, transitionDuration, adaptiveLighting,
+ *   autoOff, sleepTimer, timerFadeDuration, timers, powerOn, debug: like for devices, the channel order and calibration of
+ *   each member are taken from its device
  */
 
+/**
+ * #### Config Calibration Type ####
+ * - gamma?: number; exponent of the curve from levels to output levels, e.g. 2.2 to dim the low levels (Default: 1)
+ * - minLevel?: number; lowest output level at which the LEDs still light up (Default: 0)
+ * - maxRed?, maxGreen?, maxBlue?, maxWarmWhite?, maxColdWhite?: number; output level of each channel at its full
+ *   level, e.g. lower maxBlue when white looks blue (Default: 255)
+ */
+
+/**
+ * #### Config Power-On Type ####
+ * - policy?: 'resume' | 'restore' | 'fixed' | 'preset'; resume what the controller shows, restore the state last
+ *   set from HomeKit, which survives restarts, or apply a fixed color and brightness or a preset (Default: 'restore')
+ * - color?: string; "#rrggbb" or [red, green, blue] for the fixed policy
+ * - brightness?: number; between 1 and 100 for the fixed policy, overrides the brightness of the color
+ * - preset?: string; name of the preset for the preset policy
+ * - skipRedundantColor?: boolean; leave out the color command when the controller shows the color already
+ *   (Default: false)
+ */
+
+/**
+ * #### Config Timer Type ####
+ * - time: string; "hh:mm" in the clock of the controller
+ * - days?: string[]; 'monday' to 'sunday' (Default: every day)
+ * - date?: string; "yyyy-mm-dd" between 2000 and 2255 to run the timer once, instead of on days
+ * - on?: boolean; false switches the light off (Default: true)
+ * - color?: string; "#rrggbb" or [red, green, blue]
+ * - warmWhite?: number; between 0 and 255
+ * - pattern?: string; name of a built-in pattern, instead of a color
+ * - speed?: number; pattern speed between 0 and 100 (Default: 50)
+ * A timer without a color or pattern switches the light on with its last state.
+ */
+
+/**
+ * #### Config Custom Pattern Type ####
+ * - name: string;
+ * - colors: string[]; 1 to 16 colors as "#rrggbb" or [red, green, blue]
+ * - transitionType?: 'fade' | 'jump' | 'strobe'; (Default: 'fade')
+ * - speed?: number; between 0 and 100 (Default: 50)
+ */
+
+/**
+ * #### Config Preset Type ####
+ * - name: string;
+ * - devices?: string[]; IDs of the devices the preset applies to (Default: all devices)
+ * - on?: boolean; false switches the devices off (Default: true)
+ * - color?: string; "#rrggbb" or [red, green, blue]
+ * - warmWhite?: number; between 0 and 255
+ * - coldWhite?: number; between 0 and 255
+ * - brightness?: number; between 0 and 100, scales the color and white levels (Default: 100)
+ * - pattern?: string; name of a built-in pattern
+ * - customPattern?: string; name of a pattern from customPatterns
+ * - speed?: number; pattern speed between 0 and 100 (Default: the speed of the custom pattern or 50)
+ */
+
+// identifies the accessory holding the preset switches
+const PRESETS_ACCESSORY_ID = 'presets';
+
 export default class GenericLightPlatform implements DynamicPlatformPlugin {
   public readonly Service: typeof Service = this.api.hap.Service;
   public readonly Characteristic: typeof Characteristic = this.api.hap
@@ -36,16 +167,76 @@ export default class GenericLightPlatform implements DynamicPlatformPlugin {
   // this is used to track restored cached accessories
   public readonly accessories: PlatformAccessory[] = [];
 
+  public readonly customPatterns: CustomPatternConfigType[];
+
+  public readonly devices: DeviceConfigType[];
+
+  public readonly groups: GroupConfigType[];
+
+  public readonly presets: PresetConfigType[];
+
+  public presetSwitches?: PresetSwitches;
+
+  // accessory handlers by accessory UUID, so rediscovery can retarget them
+  private readonly handlers = new Map<string, ColorLightPlatformAccessory>();
+
+  // accessory UUIDs of the groups by the IDs of their members
+  private readonly groupOf = new Map<string, string>();
+
+  // UUIDs of cached accessories that were created from an ID as written in the config, by the normalized ID
+  private readonly legacyUuids = new Map<string, string>();
+
+  private rediscoveryInterval?: ReturnType<typeof setInterval>;
+  private clockCheckInterval?: ReturnType<typeof setInterval>;
+  private scanning = false;
+  private lastScan = 0;
+
   constructor(
     public readonly log: Logger,
     public readonly config: PlatformConfig,
     public readonly api: API
   ) {
+    this.customPatterns = validateCustomPatterns(
+      this.log,
+      this.config.customPatterns
+    );
+    this.devices = validateDevices(
+      this.log,
+      this.config.devices,
+      Boolean(this.config.discover)
+    );
+    this.groups = validateGroups(this.log, this.config.groups, this.devices);
+    this.presets = validatePresets(
+      this.log,
+      this.config.presets,
+      this.customPatterns
+    );
+
     this.log.debug('Finished initializing platform:', this.config.name);
 
     this.api.on('didFinishLaunching', () => {
       log.debug('Executed didFinishLaunching callback');
       this.discoverDevices();
+
+      // the accessories check the clocks on startup themselves
+      const clockCheckInterval =
+        this.config.clockCheckInterval ?? DEFAULT_CLOCK_CHECK_INTERVAL;
+      if (clockCheckInterval > 0) {
+        this.clockCheckInterval = setInterval(
+          this.checkClocks.bind(this),
+          clockCheckInterval * 60 * 60 * 1000
+        );
+        this.clockCheckInterval.unref();
+      }
+    });
+
+    this.api.on('shutdown', () => {
+      if (this.rediscoveryInterval) {
+        clearInterval(this.rediscoveryInterval);
+      }
+      if (this.clockCheckInterval) {
+        clearInterval(this.clockCheckInterval);
+      }
     });
   }
 
@@ -55,27 +246,234 @@ export default class GenericLightPlatform implements DynamicPlatformPlugin {
   }
 
   discoverDevices() {
+    const configured = this.devices;
+
     if (this.config.discover) {
       this.log.info('Scanning for devices...');
-      const discovery = new Discovery();
-      discovery.scan(500).then((devices) => {
-        this.setupDevices(devices);
-      });
+      this.scan()
+        .then((devices) => {
+          this.setupDevices(
+            mergeDevices(this.log, devices, configured, this.config.ignore)
+          );
+        })
+        .catch((err) => {
+          this.log.error('Scanning for devices failed: ' + err.message);
+
+          // keep the cached accessories of discovered devices rather than removing them because of a network error
+          this.setupDevices(
+            mergeDevices(this.log, [], configured, this.config.ignore),
+            false
+          );
+        });
+
+      const interval =
+        this.config.rediscoveryInterval ?? DEFAULT_REDISCOVERY_INTERVAL;
+      if (interval > 0) {
+        this.rediscoveryInterval = setInterval(
+          this.rediscover.bind(this),
+          interval * 1000
+        );
+        this.rediscoveryInterval.unref();
+      }
     } else {
       this.log.info('Using config.json for device list');
-      this.setupDevices(this.config.devices);
+      this.setupDevices(configured);
+    }
+  }
+
+  /**
+   * Corrects the clocks of all controllers that drifted, one after the other
+   */
+  checkClocks() {
+    let checks = Promise.resolve();
+    for (const handler of this.handlers.values()) {
+      checks = checks.then(() => handler.checkClock());
+    }
+    return checks;
+  }
+
+  /**
+   * Broadcasts a discovery request and resolves to the controllers that answered
+   */
+  scan(): Promise<DeviceConfigType[]> {
+    this.scanning = true;
+    this.lastScan = Date.now();
+
+    return new Discovery()
+      .scan(500)
+      .then((devices: DiscoveredDeviceType[]) => devices.map(fromDiscovery))
+      .finally(() => {
+        this.scanning = false;
+      });
+  }
+
+  /**
+   * Scans the network again and moves the accessories of controllers that got a new address from DHCP.
+   * Scans requested shortly after the previous one are skipped, so several lights going offline cause one scan.
+   */
+  rediscover() {
+    if (
+      !this.config.discover ||
+      this.scanning ||
+      Date.now() - this.lastScan < MIN_REDISCOVERY_DELAY * 1000
+    ) {
+      return;
+    }
+
+    this.log.debug('Rescanning for devices...');
+    this.scan()
+      .then((devices) => {
+        const updated: PlatformAccessory[] = [];
+
+        for (const device of devices) {
+          if (this.groupOf.has(device.id)) {
+            this.moveGroupMember(device, updated);
+            continue;
+          }
+
+          const uuid = this.accessoryUuid(device.id);
+          const handler = this.handlers.get(uuid);
+          const accessory = this.accessories.find(
+            (accessory) => accessory.UUID === uuid
+          );
+
+          if (
+            !handler ||
+            !accessory ||
+            accessory.context.device.ipAddress === device.ipAddress
+          ) {
+            continue;
+          }
+
+          this.log.info(
+            '%s moved from %s to %s',
+            accessory.displayName,
+            accessory.context.device.ipAddress,
+            device.ipAddress
+          );
+
+          accessory.context.device = {
+            ...accessory.context.device,
+            ipAddress: device.ipAddress,
+          };
+          handler.setAddress(device.ipAddress, accessory.context.device.port);
+          updated.push(accessory);
+        }
+
+        if (updated.length > 0) {
+          this.api.updatePlatformAccessories(updated);
+        }
+      })
+      .catch((err) => {
+        this.log.debug('Rescanning for devices failed: ' + err.message);
+      });
+  }
+
+  /**
+   * Moves a member of a group to the new address of its controller
+   */
+  moveGroupMember(device: DeviceConfigType, updated: PlatformAccessory[]) {
+    const uuid = this.groupOf.get(device.id)!;
+    const handler = this.handlers.get(uuid);
+    const accessory = this.accessories.find(
+      (accessory) => accessory.UUID === uuid
+    );
+    const members: DeviceConfigType[] = accessory?.context.device.members ?? [];
+    const member = members.find(
+      (member) => normalizeDeviceId(member.id) === device.id
+    );
+
+    if (
+      !handler ||
+      !accessory ||
+      !member ||
+      member.ipAddress === device.ipAddress
+    ) {
+      return;
+    }
+
+    this.log.info(
+      '%s of %s moved from %s to %s',
+      member.displayName,
+      accessory.displayName,
+      member.ipAddress,
+      device.ipAddress
+    );
+
+    accessory.context.device = {
+      ...accessory.context.device,
+      members: members.map((entry) =>
+        entry === member ? { ...member, ipAddress: device.ipAddress } : entry
+      ),
+    };
+    handler.setMemberAddress(member.id, device.ipAddress, member.port);
+    if (!updated.includes(accessory)) {
+      updated.push(accessory);
     }
   }
 
-  setupDevices(devices) {
-    this.log.info(`Found ${devices.length} device(s)`);
+  /**
+   * The UUID of the accessory of a device, generated from its normalized ID
+   */
+  accessoryUuid(id: string) {
+    const normalized = normalizeDeviceId(id);
+    return (
+      this.legacyUuids.get(normalized) ?? this.api.hap.uuid.generate(normalized)
+    );
+  }
+
+  /**
+   * Keeps using an accessory cached by a version that generated its UUID from the ID as written in the config,
+   * e.g. `aa:bb:cc:dd:ee:ff`, so it keeps its room, scenes and automations in HomeKit
+   */
+  adoptLegacyAccessory(device: DeviceConfigType) {
+    const normalized = normalizeDeviceId(device.id);
+    const uuid = this.api.hap.uuid.generate(normalized);
+    if (
+      this.legacyUuids.has(normalized) ||
+      this.accessories.some((accessory) => accessory.UUID === uuid)
+    ) {
+      return;
+    }
+
+    const rawIds = [device.id, ...this.devices.map((entry) => entry.id)].filter(
+      (id) => id !== normalized && normalizeDeviceId(id) === normalized
+    );
+    for (const rawId of rawIds) {
+      const legacyUuid = this.api.hap.uuid.generate(rawId);
+      const accessory = this.accessories.find(
+        (accessory) => accessory.UUID === legacyUuid
+      );
+      if (accessory) {
+        this.log.debug(
+          'Keeping the accessory %s cached under the ID %s',
+          accessory.displayName,
+          rawId
+        );
+        this.legacyUuids.set(normalized, legacyUuid);
+        return;
+      }
+    }
+  }
+
+  setupDevices(discovered: DeviceConfigType[], removeStale = true) {
+    this.log.info(`Found ${discovered.length} device(s)`);
+
+    // the members of a group are published as one accessory for the group
+    const devices = resolveGroups(this.log, discovered, this.groups);
+
+    const uuids = new Set<string>();
 
     // loop over the discovered devices and register each one if it has not already been registered
     for (const device of devices) {
-      // generate a unique id for the accessory this should be generated from
-      // something globally unique, but constant, for example, the device serial
-      // number or MAC address
-      const uuid = this.api.hap.uuid.generate(device.id);
+      // the MAC address of the controller stays the same when its IP address changes
+      this.adoptLegacyAccessory(device);
+      const uuid = this.accessoryUuid(device.id);
+      uuids.add(uuid);
+
+      for (const member of device.members ?? []) {
+        this.groupOf.set(normalizeDeviceId(member.id), uuid);
+      }
 
       // see if an accessory with the same uuid has already been registered and restored from
       // the cached devices we stored in the `configureAccessory` method above
@@ -84,40 +482,28 @@ export default class GenericLightPlatform implements DynamicPlatformPlugin {
       );
 
       if (existingAccessory) {
-        // the accessory already exists
-        if (device) {
-          this.log.info(
-            'Restoring existing accessory from cache:',
-            existingAccessory.displayName
-          );
+        this.log.info(
+          'Restoring existing accessory from cache:',
+          existingAccessory.displayName
+        );
 
-          // if you need to update the accessory.context then you should run `api.updatePlatformAccessories`. eg.:
-          // existingAccessory.context.device = device;
-          // this.api.updatePlatformAccessories([existingAccessory]);
+        // the address or the options of the device may have changed since it was cached
+        existingAccessory.context.device = device;
+        existingAccessory.context.lastSeen = Date.now();
 
-          // create the accessory handler for the restored accessory
-          // this is imported from `platformAccessory.ts`
+        // create the accessory handler for the restored accessory
+        this.handlers.set(
+          uuid,
           new ColorLightPlatformAccessory(
             this,
             existingAccessory,
             device.ipAddress,
-            device.port,
-            'rgb'
-          );
+            device.port
+          )
+        );
 
-          // update accessory cache with any changes to the accessory details and information
-          this.api.updatePlatformAccessories([existingAccessory]);
-        } else if (!device) {
-          // it is possible to remove platform accessories at any time using `api.unregisterPlatformAccessories`, eg.:
-          // remove platform accessories when no longer present
-          this.api.unregisterPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [
-            existingAccessory,
-          ]);
-          this.log.info(
-            'Removing existing accessory from cache:',
-            existingAccessory.displayName
-          );
-        }
+        // update accessory cache with any changes to the accessory details and information
+        this.api.updatePlatformAccessories([existingAccessory]);
       } else {
         // the accessory does not yet exist, so we need to create it
         this.log.info('Adding new accessory:', device.displayName);
@@ -131,22 +517,158 @@ export default class GenericLightPlatform implements DynamicPlatformPlugin {
         // store a copy of the device object in the `accessory.context`
         // the `context` property can be used to store any data about the accessory you may need
         accessory.context.device = device;
+        accessory.context.lastSeen = Date.now();
 
         // create the accessory handler for the newly create accessory
-        // this is imported from `platformAccessory.ts`
-        new ColorLightPlatformAccessory(
-          this,
-          accessory,
-          device.ipAddress,
-          device.port,
-          'rgb'
+        this.handlers.set(
+          uuid,
+          new ColorLightPlatformAccessory(
+            this,
+            accessory,
+            device.ipAddress,
+            device.port
+          )
         );
 
         // link the accessory to your platform
         this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [
           accessory,
         ]);
+        this.accessories.push(accessory);
+      }
+    }
+
+    this.setupPresets(uuids);
+
+    if (removeStale) {
+      this.removeStaleAccessories(uuids);
+    }
+  }
+
+  /**
+   * Publishes the presets as switches on an accessory of their own, without presets its cached accessory goes
+   * stale like a removed device
+   */
+  setupPresets(uuids: Set<string>) {
+    if (this.presets.length === 0) {
+      return;
+    }
+
+    const uuid = this.api.hap.uuid.generate(PRESETS_ACCESSORY_ID);
+    uuids.add(uuid);
+
+    let accessory = this.accessories.find(
+      (accessory) => accessory.UUID === uuid
+    );
+    if (!accessory) {
+      this.log.info(
+        'Adding new accessory for %d preset(s)',
+        this.presets.length
+      );
+
+      accessory = new this.api.platformAccessory(
+        `${this.config.name ?? 'Generic Light'} Presets`,
+        uuid
+      );
+      this.api.registerPlatformAccessories(PLUGIN_NAME, PLATFORM_NAME, [
+        accessory,
+      ]);
+      this.accessories.push(accessory);
+    }
+    accessory.context.lastSeen = Date.now();
+
+    for (const preset of this.presets) {
+      for (const id of preset.devices) {
+        if (!this.handlers.has(this.accessoryUuid(id))) {
+          this.log.warn('Preset %s: device %s was not found', preset.name, id);
+        }
       }
     }
+
+    this.presetSwitches = new PresetSwitches(
+      this,
+      accessory,
+      this.presets,
+      this.presetLights.bind(this)
+    );
+    this.api.updatePlatformAccessories([accessory]);
+  }
+
+  /**
+   * The lights a preset applies to, all of them when the preset lists no devices
+   */
+  presetLights(preset: PresetConfigType): ColorLightPlatformAccessory[] {
+    if (preset.devices.length === 0) {
+      return [...this.handlers.values()];
+    }
+
+    const lights: ColorLightPlatformAccessory[] = [];
+    for (const id of preset.devices) {
+      const handler = this.handlers.get(this.accessoryUuid(id));
+      if (handler) {
+        lights.push(handler);
+      }
+    }
+    return lights;
+  }
+
+  /**
+   * Unregisters cached accessories whose device was removed from the config or is no longer discovered,
+   * once they have been missing for longer than the `removeMissingAfter` grace period
+   */
+  removeStaleAccessories(uuids: Set<string>) {
+    const gracePeriod =
+      (this.config.removeMissingAfter ?? DEFAULT_REMOVE_MISSING_AFTER) *
+      60 *
+      60 *
+      1000;
+    const now = Date.now();
+
+    const stale = this.accessories.filter(
+      (accessory) => !uuids.has(accessory.UUID)
+    );
+
+    const expired: PlatformAccessory[] = [];
+    const missing: PlatformAccessory[] = [];
+    for (const accessory of stale) {
+      // accessories cached by older versions have never been seen, the grace period starts now
+      if (accessory.context.lastSeen === undefined) {
+        accessory.context.lastSeen = now;
+        missing.push(accessory);
+      }
+
+      if (now - accessory.context.lastSeen >= gracePeriod) {
+        this.log.info(
+          'Removing existing accessory from cache:',
+          accessory.displayName
+        );
+        expired.push(accessory);
+      } else {
+        this.log.info(
+          'Accessory %s is missing, removing it in %s hour(s) unless it returns',
+          accessory.displayName,
+          (
+            (accessory.context.lastSeen + gracePeriod - now) /
+            (60 * 60 * 1000)
+          ).toFixed(1)
+        );
+      }
+    }
+
+    if (expired.length > 0) {
+      this.api.unregisterPlatformAccessories(
+        PLUGIN_NAME,
+        PLATFORM_NAME,
+        expired
+      );
+      for (const accessory of expired) {
+        this.accessories.splice(this.accessories.indexOf(accessory), 1);
+      }
+    }
+
+    const updated = missing.filter((accessory) => !expired.includes(accessory));
+    if (updated.length > 0) {
+      this.api.updatePlatformAccessories(updated);
+    }
   }
 }
@@ -1,2 +1,34 @@
 export const PLATFORM_NAME = 'HomebridgeGenericLight';
 export const PLUGIN_NAME = 'homebridge-generic-light';
+
+// seconds between two background state queries of a light, and the maximum random delay added to spread them
+export const DEFAULT_POLLING_INTERVAL = 30;
+export const DEFAULT_POLLING_JITTER = 5;
+
+// milliseconds after which connecting to a controller fails, so unplugged lights are noticed quickly
+export const CONNECT_TIMEOUT_LENGTH = 3000;
+
+// milliseconds during which hue, saturation and brightness changes are collected into a single color command
+export const COLOR_COALESCE_WINDOW = 50;
+
+// milliseconds the accessory cache is written after the HomeKit state changed, Adaptive Lighting changes it every minute
+export const HOMEKIT_STATE_SAVE_DELAY = 10000;
+
+// TCP port of Magic Home/LEDENET controllers, used for discovered devices
+export const DEFAULT_CONTROLLER_PORT = 5577;
+
+// seconds between two network scans that follow controllers to new addresses, and the minimum time between two scans
+export const DEFAULT_REDISCOVERY_INTERVAL = 600;
+export const MIN_REDISCOVERY_DELAY = 60;
+
+// seconds the HomeKit sleep timer runs for until a duration is picked in the Home app, and the longest timer
+export const DEFAULT_SLEEP_TIMER_DURATION = 30 * 60;
+export const MAX_SLEEP_TIMER_DURATION = 24 * 60 * 60;
+
+// hours a device may be missing from the config or discovery before its accessory is removed, e.g. while it is
+// switched off at the wall for a few days
+export const DEFAULT_REMOVE_MISSING_AFTER = 7 * 24;
+
+// hours between two checks of the controller clocks, which run the on-device timers, and the seconds a clock may be off
+export const DEFAULT_CLOCK_CHECK_INTERVAL = 24;
+export const DEFAULT_MAX_CLOCK_DRIFT = 60;
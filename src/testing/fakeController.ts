@@ -0,0 +1,381 @@
+import net from 'net';
+
+export type FakeControllerOptionsType = {
+  // type byte reported in query responses (Default: 0x33, an RGB controller)
+  type?: number;
+  // expect color packets with a cold white byte (Default: false)
+  coldWhiteSupport?: boolean;
+  // acknowledge power, color and pattern commands (Default: true)
+  ack?: boolean;
+  // milliseconds to wait before replying (Default: 0)
+  replyDelay?: number;
+  // split replies into chunks of this many bytes (Default: whole reply at once)
+  chunkSize?: number;
+  // milliseconds between two chunks of a reply (Default: 50)
+  chunkDelay?: number;
+  // cut every reply to this many bytes (Default: no truncation)
+  truncateReplies?: number;
+  // stop replying to anything, including queries, like a controller behind a half-open connection (Default: false)
+  silent?: boolean;
+};
+
+export type FakeControllerStateType = {
+  on: boolean;
+  red: number;
+  green: number;
+  blue: number;
+  warmWhite: number;
+  coldWhite: number;
+  // byte 3 of the query response: 0x61 color, 0x60 custom, 0x25 - 0x38 built-in patterns
+  mode: number;
+  // IA pattern code as sent on the wire, or null when no IA pattern is running
+  iaPattern: number | null;
+  // delay of built-in/custom patterns, speed of IA patterns
+  speed: number;
+  firmwareVersion: number;
+  // how the strip is wired, 0xf0 for controllers which do not report it
+  wiring: number;
+  // the 6 timer slots of 14 bytes, as sent by the last timer command
+  timers: Buffer;
+  // year - 2000, month, day, hour, minute, second and weekday as sent by the last clock command, all 0 when unset
+  clock: number[];
+};
+
+export const checksum = (buf: Buffer) => {
+  let sum = 0;
+  for (const byte of buf.values()) {
+    sum += byte;
+  }
+  return sum & 0xff;
+};
+
+const withChecksum = (bytes: number[]) => {
+  const buf = Buffer.from(bytes);
+  return Buffer.concat([buf, Buffer.from([checksum(buf)])]);
+};
+
+/**
+ * Fake Controller
+ * A TCP stand-in for a Magic Home/LEDENET controller. It validates the checksum of every command, keeps the
+ * light state and answers queries with 14 byte replies like the real hardware. Replies can be delayed or chunked,
+ * and connections can be dropped on purpose to exercise the error handling of Control.
+ */
+export default class FakeController {
+  public state: FakeControllerStateType = {
+    on: false,
+    red: 0,
+    green: 0,
+    blue: 0,
+    warmWhite: 0,
+    coldWhite: 0,
+    mode: 0x61,
+    iaPattern: null,
+    speed: 0x10,
+    firmwareVersion: 0x05,
+    wiring: 0xf0,
+    timers: Buffer.concat(
+      Array.from({ length: 6 }, () =>
+        Buffer.from([0x0f, ...new Array(13).fill(0)])
+      )
+    ),
+    clock: [0, 0, 0, 0, 0, 0, 0],
+  };
+
+  // every command with a valid checksum, without the checksum
+  public commands: Buffer[] = [];
+  // commands which failed the checksum validation or could not be parsed
+  public invalidCommands: Buffer[] = [];
+  public connections = 0;
+
+  private options: Required<FakeControllerOptionsType>;
+  private server: net.Server;
+  private sockets: Set<net.Socket> = new Set();
+  private dropNext = 0;
+
+  constructor(options?: FakeControllerOptionsType) {
+    this.options = {
+      type: 0x33,
+      coldWhiteSupport: false,
+      ack: true,
+      replyDelay: 0,
+      chunkSize: 0,
+      chunkDelay: 50,
+      truncateReplies: 0,
+      silent: false,
+      ...options,
+    };
+
+    this.server = net.createServer((socket) => this.handleConnection(socket));
+  }
+
+  /**
+   * Starts listening on a random local port, which is returned
+   */
+  listen(): Promise<number> {
+    return new Promise((resolve) => {
+      this.server.listen(0, '127.0.0.1', () => {
+        resolve((this.server.address() as net.AddressInfo).port);
+      });
+    });
+  }
+
+  close(): Promise<void> {
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+
+    return new Promise((resolve) => {
+      this.server.close(() => resolve());
+    });
+  }
+
+  set(options: FakeControllerOptionsType) {
+    this.options = { ...this.options, ...options };
+  }
+
+  /**
+   * Connections which are still open
+   */
+  get openConnections() {
+    return this.sockets.size;
+  }
+
+  /**
+   * Destroys all open connections right away, e.g. while they are idle
+   */
+  disconnect() {
+    for (const socket of this.sockets) {
+      socket.destroy();
+    }
+  }
+
+  /**
+   * Destroys the connection when the next `count` commands arrive, without handling them
+   */
+  dropConnections(count = 1) {
+    this.dropNext = count;
+  }
+
+  private handleConnection(socket: net.Socket) {
+    this.connections++;
+    this.sockets.add(socket);
+
+    let buffer = Buffer.alloc(0);
+
+    socket.on('data', (data) => {
+      buffer = Buffer.concat([buffer, data]);
+
+      let length;
+      while (buffer.length > 0 && (length = this.commandLength(buffer)) > 0) {
+        if (buffer.length < length) {
+          return; // wait for the rest of the command
+        }
+
+        const command = buffer.slice(0, length);
+        buffer = buffer.slice(length);
+
+        if (this.dropNext > 0) {
+          this.dropNext--;
+          socket.destroy();
+          return;
+        }
+
+        this.handleCommand(socket, command);
+      }
+
+      if (buffer.length > 0) {
+        // unknown command, nothing after it can be framed
+        this.invalidCommands.push(buffer);
+        buffer = Buffer.alloc(0);
+      }
+    });
+
+    socket.on('close', () => {
+      this.sockets.delete(socket);
+    });
+
+    socket.on('error', () => {
+      // the client went away, nothing to do
+    });
+  }
+
+  /**
+   * Length of the command at the start of the buffer including the checksum, 0 if the command is unknown
+   */
+  private commandLength(buffer: Buffer) {
+    switch (buffer[0]) {
+      case 0x81:
+      case 0x71:
+        return 4;
+      case 0x22:
+      case 0x11:
+        return 5;
+      case 0x10:
+        return 12;
+      case 0x21:
+        return 88;
+      case 0x31:
+        return this.options.coldWhiteSupport ? 9 : 8;
+      case 0x61:
+        // built-in patterns end with 0x0f at index 3, IA patterns at index 4
+        if (buffer.length < 5) {
+          return 5;
+        }
+        if (buffer[3] === 0x0f && checksum(buffer.slice(0, 4)) === buffer[4]) {
+          return 5;
+        }
+        return 6;
+      case 0x51:
+        return 70;
+      default:
+        return 0;
+    }
+  }
+
+  private handleCommand(socket: net.Socket, command: Buffer) {
+    const body = command.slice(0, command.length - 1);
+
+    if (checksum(body) !== command[command.length - 1]) {
+      this.invalidCommands.push(command);
+      return;
+    }
+
+    this.commands.push(body);
+
+    switch (body[0]) {
+      case 0x81:
+        this.reply(socket, this.queryResponse());
+        break;
+      case 0x71:
+        this.state.on = body[1] === 0x23;
+        this.ack(socket, withChecksum([0xf0, 0x71, body[1]]));
+        break;
+      case 0x31:
+        this.handleColor(body);
+        this.ack(socket, withChecksum([0xf0, 0x31, 0x00]));
+        break;
+      case 0x61:
+        if (body.length === 4) {
+          this.state.mode = body[1];
+          this.state.iaPattern = null;
+          this.state.speed = body[2];
+        } else {
+          this.state.iaPattern = (body[1] << 8) | body[2];
+          this.state.speed = body[3];
+        }
+        this.ack(socket, withChecksum([0xf0, 0x61, 0x00]));
+        break;
+      case 0x22:
+        this.reply(
+          socket,
+          withChecksum([0x0f, 0x22, ...this.state.timers, 0x00])
+        );
+        break;
+      case 0x21:
+        this.state.timers = body.slice(1, 85);
+        this.reply(socket, withChecksum([0x0f, 0x21, 0x00]));
+        break;
+      case 0x11:
+        this.reply(
+          socket,
+          withChecksum([0x0f, 0x11, 0x14, ...this.state.clock, 0x00])
+        );
+        break;
+      case 0x10:
+        this.state.clock = [...body.slice(2, 9)];
+        this.reply(socket, withChecksum([0x0f, 0x10, 0x00]));
+        break;
+      case 0x51:
+        this.state.mode = 0x60;
+        this.state.iaPattern = null;
+        this.state.speed = body[65];
+        this.ack(socket, withChecksum([0xf0, 0x51, 0x00]));
+        break;
+    }
+  }
+
+  private handleColor(body: Buffer) {
+    const mask = this.options.coldWhiteSupport ? body[6] : body[5];
+
+    // a mask of 0xf0 only changes the colors, 0x0f only the whites, everything else changes both
+    if (mask !== 0x0f) {
+      this.state.red = body[1];
+      this.state.green = body[2];
+      this.state.blue = body[3];
+    }
+    if (mask !== 0xf0) {
+      this.state.warmWhite = body[4];
+      if (this.options.coldWhiteSupport) {
+        this.state.coldWhite = body[5];
+      }
+    }
+
+    this.state.mode = 0x61;
+    this.state.iaPattern = null;
+  }
+
+  queryResponse() {
+    const { state } = this;
+
+    const modeBytes =
+      state.iaPattern !== null
+        ? [state.iaPattern >> 8, state.iaPattern & 0xff]
+        : [state.mode, 0x21];
+
+    return withChecksum([
+      0x81,
+      this.options.type,
+      state.on ? 0x23 : 0x24,
+      ...modeBytes,
+      state.speed,
+      state.red,
+      state.green,
+      state.blue,
+      state.warmWhite,
+      state.firmwareVersion,
+      state.coldWhite,
+      state.wiring,
+    ]);
+  }
+
+  private ack(socket: net.Socket, data: Buffer) {
+    if (this.options.ack) {
+      this.reply(socket, data);
+    }
+  }
+
+  private reply(socket: net.Socket, data: Buffer) {
+    const {
+      chunkSize,
+      chunkDelay,
+      replyDelay,
+      truncateReplies,
+      silent,
+    } = this.options;
+
+    if (silent) {
+      return;
+    }
+
+    if (truncateReplies > 0) {
+      data = data.slice(0, truncateReplies);
+    }
+
+    const chunks: Buffer[] = [];
+    if (chunkSize > 0) {
+      for (let i = 0; i < data.length; i += chunkSize) {
+        chunks.push(data.slice(i, i + chunkSize));
+      }
+    } else {
+      chunks.push(data);
+    }
+
+    chunks.forEach((chunk, index) => {
+      setTimeout(() => {
+        if (!socket.destroyed) {
+          socket.write(chunk);
+        }
+      }, replyDelay + index * chunkDelay);
+    });
+  }
+}